@@ -1,20 +1,90 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { EventEmitter } from 'node:events'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   createServices,
   getIpcContext,
+  IpcEvent,
   IpcHandler,
   IpcMethod,
   IpcService,
   type IpcContext,
 } from './base'
+import { IpcTimeoutError } from './errors'
+import {
+  appendCallMeta,
+  IPC_BATCH_CHANNEL,
+  IPC_CACHE_CHANNEL,
+  IPC_CANCEL_CHANNEL,
+  IPC_CHANNELS_CHANNEL,
+  IPC_ERROR_KEY,
+  IPC_STREAM_CHANNEL,
+  IPC_STREAM_KEY,
+} from './protocol'
+import type { StandardSchemaV1 } from './standard-schema'
+
+// IPC target throwing when a channel gets a second handler, like Electron's
+const createTarget = () => {
+  const channels = new Set<string>()
+  return {
+    handle: vi.fn((channel: string, _listener: (...args: any[]) => any) => {
+      if (channels.has(channel)) {
+        throw new Error(
+          `Attempted to register a second handler for '${channel}'`,
+        )
+      }
+      channels.add(channel)
+    }),
+    removeHandler: vi.fn((channel: string) => {
+      channels.delete(channel)
+    }),
+    on: vi.fn(),
+  }
+}
+
+// Mock electron, with a new ipcMain for every test
+let ipcMain = createTarget()
+beforeEach(() => {
+  ipcMain = createTarget()
+})
 
-// Mock electron
-vi.mock('electron', () => ({
-  ipcMain: {
-    handle: vi.fn(),
-  },
+const mockWebContents = vi.hoisted(() => ({
+  getAllWebContents: vi.fn(() => [] as any[]),
+}))
+const mockApp = vi.hoisted(() => ({ isPackaged: false }))
+
+vi.mock('./electron', () => ({
+  getElectron: () => ({
+    ipcMain,
+    webContents: mockWebContents,
+    app: mockApp,
+  }),
 }))
 
+const createMockSender = () => ({
+  send: vi.fn(),
+  once: vi.fn(),
+  mainFrame: {},
+})
+
+// Handler registered on ipcMain for `channel`
+const getHandle = async (channel: string) => {
+  const call = (ipcMain.handle as any).mock.calls.find(
+    ([registered]: [string]) => registered === channel,
+  )
+  return call[1]
+}
+
+const stringSchema: StandardSchemaV1<string> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) =>
+      typeof value === 'string'
+        ? { value: value.trim() }
+        : { issues: [{ message: 'Expected string' }] },
+  },
+}
+
 describe('getIpcContext', () => {
   it('should throw error when context is not available', () => {
     expect(() => getIpcContext()).toThrow(
@@ -111,7 +181,6 @@ describe('IpcHandler', () => {
   })
 
   it('should register method and handle IPC call', async () => {
-    const { ipcMain } = await import('electron')
     const mockHandler = vi.fn().mockResolvedValue('result')
 
     handler.registerMethod('test.method', mockHandler)
@@ -124,7 +193,7 @@ describe('IpcHandler', () => {
     // Get the registered handler
     const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
     const mockEvent = {
-      sender: { send: vi.fn() },
+      sender: createMockSender(),
     }
 
     const result = await registeredHandler(mockEvent, 'arg1', 'arg2')
@@ -132,20 +201,71 @@ describe('IpcHandler', () => {
     expect(mockHandler).toHaveBeenCalledWith('arg1', 'arg2')
   })
 
-  it('should not register the same channel twice', async () => {
-    const { ipcMain } = await import('electron')
+  it('should reject channels registered twice', async () => {
     const mockHandler = vi.fn()
 
-    const result1 = handler.registerMethod('test.method', mockHandler)
-    const result2 = handler.registerMethod('test.method', mockHandler)
+    handler.registerMethod('test.method', mockHandler)
 
-    expect(ipcMain.handle).toHaveBeenCalledTimes(1)
-    expect(result1).toBeUndefined()
-    expect(result2).toBeUndefined()
+    expect(() => handler.registerMethod('test.method', mockHandler)).toThrow(
+      'IPC channel test.method of IpcHandler.registerMethod is already registered by IpcHandler.registerMethod',
+    )
+    expect(ipcMain.handle).toHaveBeenCalledWith(
+      IPC_BATCH_CHANNEL,
+      expect.any(Function),
+    )
+    expect(ipcMain.handle).toHaveBeenCalledTimes(2)
+  })
+
+  it('should keep the first method of conflicting channels when warning', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    handler.onConflict = 'warn'
+
+    handler.registerMethod('test.method', () => 'first')
+    handler.registerMethod('test.method', () => 'second')
+
+    expect(warn).toHaveBeenCalledWith(
+      'IPC channel test.method of IpcHandler.registerMethod is already registered by IpcHandler.registerMethod, keeping the first method',
+    )
+    expect(ipcMain.handle).toHaveBeenCalledTimes(2)
+    const registeredHandler = await getHandle('test.method')
+    await expect(
+      registeredHandler({ sender: createMockSender() }),
+    ).resolves.toBe('first')
+    warn.mockRestore()
+  })
+
+  it('should replace the method of conflicting channels', async () => {
+    handler.onConflict = 'replace'
+
+    handler.registerMethod('test.method', () => 'first')
+    handler.registerMethod('test.method', () => 'second')
+
+    expect(ipcMain.removeHandler).toHaveBeenCalledWith('test.method')
+    const registeredHandler = (ipcMain.handle as any).mock.calls.at(-1)[1]
+    await expect(
+      registeredHandler({ sender: createMockSender() }),
+    ).resolves.toBe('second')
+    expect(handler.getChannels()).toEqual(['test.method'])
+  })
+
+  it('should only remove methods still registered by their owner', async () => {
+    const first = {}
+    const second = {}
+    handler.onConflict = 'replace'
+
+    handler.registerMethod('test.method', vi.fn(), {}, first)
+    handler.registerMethod('test.method', vi.fn(), {}, second)
+    vi.mocked(ipcMain.removeHandler).mockClear()
+
+    handler.removeMethod('test.method', first)
+    expect(handler.getChannels()).toEqual(['test.method'])
+
+    handler.removeMethod('test.method', second)
+    expect(handler.getChannels()).toEqual([])
+    expect(ipcMain.removeHandler).toHaveBeenCalledTimes(1)
   })
 
   it('should handle errors in IPC method', async () => {
-    const { ipcMain } = await import('electron')
     const consoleErrorSpy = vi
       .spyOn(console, 'error')
       .mockImplementation(() => {})
@@ -156,10 +276,16 @@ describe('IpcHandler', () => {
 
     const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
     const mockEvent = {
-      sender: { send: vi.fn() },
+      sender: createMockSender(),
     }
 
-    await expect(registeredHandler(mockEvent)).rejects.toThrow('Test error')
+    await expect(registeredHandler(mockEvent)).resolves.toEqual({
+      [IPC_ERROR_KEY]: {
+        name: 'Error',
+        message: 'Test error',
+        stack: error.stack,
+      },
+    })
     expect(consoleErrorSpy).toHaveBeenCalledWith(
       'Error in IPC method test.error:',
       error,
@@ -168,8 +294,38 @@ describe('IpcHandler', () => {
     consoleErrorSpy.mockRestore()
   })
 
+  it('should omit error stacks when disabled', async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    handler.exposeErrorStack = false
+    handler.registerMethod('test.error', () => {
+      throw new Error('Test error')
+    })
+
+    const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+    const result = await registeredHandler({ sender: createMockSender() })
+
+    expect(result[IPC_ERROR_KEY]).toEqual({
+      name: 'Error',
+      message: 'Test error',
+    })
+
+    consoleErrorSpy.mockRestore()
+  })
+
+  it('should only expose error stacks in unpackaged apps', () => {
+    expect(new IpcHandler().exposeErrorStack).toBe(true)
+    mockApp.isPackaged = true
+    try {
+      expect(new IpcHandler().exposeErrorStack).toBe(false)
+    } finally {
+      mockApp.isPackaged = false
+    }
+  })
+
   it('should provide context through AsyncLocalStorage', async () => {
-    const { ipcMain } = await import('electron')
     let capturedContext: IpcContext = null!
 
     const mockHandler = vi.fn(() => {
@@ -181,7 +337,7 @@ describe('IpcHandler', () => {
 
     const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
     const mockEvent = {
-      sender: { send: vi.fn() },
+      sender: createMockSender(),
       someProperty: 'test',
     }
 
@@ -192,21 +348,723 @@ describe('IpcHandler', () => {
     expect(capturedContext?.event).toBe(mockEvent)
   })
 
+  it('should strip call metadata from the arguments', async () => {
+    const mockHandler = vi.fn((value: string) => value)
+
+    handler.registerMethod('test.meta', mockHandler)
+
+    const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+    const result = await registeredHandler(
+      { sender: createMockSender() },
+      ...appendCallMeta(['value'], { requestId: 'request-1' }),
+    )
+
+    expect(result).toBe('value')
+    expect(mockHandler).toHaveBeenCalledWith('value')
+  })
+
+  it('should abort the context signal when the renderer cancels', async () => {
+    let signal: AbortSignal = null!
+    let resolve: () => void = null!
+    const promise = new Promise<void>((r) => (resolve = r))
+
+    handler.registerMethod('test.cancel', async () => {
+      signal = getIpcContext().signal
+      await promise
+      return signal.aborted
+    })
+
+    const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+    const cancelListener = (ipcMain.on as any).mock.calls[0][1]
+    expect((ipcMain.on as any).mock.calls[0][0]).toBe(IPC_CANCEL_CHANNEL)
+
+    const sender = createMockSender()
+    const call = registeredHandler(
+      { sender },
+      ...appendCallMeta([], { requestId: 'request-1' }),
+    )
+
+    await vi.waitFor(() => expect(signal).not.toBeNull())
+    cancelListener({ sender }, 'unknown-request')
+    cancelListener({ sender: createMockSender() }, 'request-1')
+    expect(signal.aborted).toBe(false)
+
+    cancelListener({ sender }, 'request-1')
+    expect(signal.aborted).toBe(true)
+    expect(signal.reason).toMatchObject({ code: 'CANCELLED' })
+
+    resolve()
+    await expect(call).resolves.toBe(true)
+  })
+
+  it('should abort pending calls when the sender is destroyed', async () => {
+    const signals: AbortSignal[] = []
+    let resolve: () => void = null!
+    const promise = new Promise<void>((r) => (resolve = r))
+
+    handler.registerMethod('test.destroy', async () => {
+      signals.push(getIpcContext().signal)
+      await promise
+    })
+
+    const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+    const sender = createMockSender()
+    const first = registeredHandler({ sender })
+    const second = registeredHandler({ sender })
+
+    await vi.waitFor(() => expect(signals).toHaveLength(2))
+    expect(sender.once).toHaveBeenCalledTimes(1)
+    expect(sender.once).toHaveBeenCalledWith('destroyed', expect.any(Function))
+
+    const onDestroyed = sender.once.mock.calls[0][1]
+    onDestroyed()
+
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, true])
+    expect(signals[0].reason).toMatchObject({ code: 'SENDER_DESTROYED' })
+
+    resolve()
+    await Promise.all([first, second])
+  })
+
+  describe('timeouts', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should time out methods that take too long', async () => {
+      vi.useFakeTimers({ now: 0 })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      let context: IpcContext = null!
+
+      handler.registerMethod(
+        'test.slow',
+        () => {
+          context = getIpcContext()
+          return new Promise(() => {})
+        },
+        { timeout: 1000 },
+      )
+
+      const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+      const call = registeredHandler({ sender: createMockSender() })
+
+      await vi.advanceTimersByTimeAsync(1000)
+      await expect(call).resolves.toMatchObject({
+        [IPC_ERROR_KEY]: {
+          name: 'IpcTimeoutError',
+          code: 'TIMEOUT',
+          data: { channel: 'test.slow', timeout: 1000 },
+        },
+      })
+      expect(context.deadline).toBe(1000)
+      expect(context.signal.reason).toBeInstanceOf(IpcTimeoutError)
+      vi.mocked(console.error).mockRestore()
+    })
+
+    it('should let the caller shorten the timeout of the method', async () => {
+      vi.useFakeTimers({ now: 0 })
+      const deadlines: (number | undefined)[] = []
+      handler.defaultTimeout = 5000
+
+      handler.registerMethod(
+        'test.deadline',
+        () => deadlines.push(getIpcContext().deadline),
+        { timeout: 1000 },
+      )
+      handler.registerMethod('test.default', () =>
+        deadlines.push(getIpcContext().deadline),
+      )
+
+      const method = await getHandle('test.deadline')
+      const fallback = await getHandle('test.default')
+      const sender = createMockSender()
+      await method({ sender })
+      await method({ sender }, ...appendCallMeta([], { timeout: 500 }))
+      // Renderers cannot lift the limit set by the main process
+      await method({ sender }, ...appendCallMeta([], { timeout: 3000 }))
+      await method({ sender }, ...appendCallMeta([], { timeout: 0 }))
+      await method(
+        { sender },
+        ...appendCallMeta([], { timeout: 'none' as any }),
+      )
+      await fallback({ sender }, ...appendCallMeta([], { timeout: 3000 }))
+      await fallback({ sender })
+
+      expect(deadlines).toEqual([1000, 500, 1000, 1000, 1000, 3000, 5000])
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it('should not set a deadline without a timeout', async () => {
+      vi.useFakeTimers({ now: 0 })
+      handler.registerMethod('test.open', () => getIpcContext().deadline)
+
+      const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+      const sender = createMockSender()
+      await expect(registeredHandler({ sender })).resolves.toBeUndefined()
+      await expect(
+        registeredHandler({ sender }, ...appendCallMeta([], { timeout: 2000 })),
+      ).resolves.toBe(2000)
+    })
+  })
+
+  it('should only listen for cancellation and channels once', async () => {
+    handler.registerMethod('test.first', vi.fn())
+    handler.registerMethod('test.second', vi.fn())
+
+    expect(
+      (ipcMain.on as any).mock.calls.map(([channel]: [string]) => channel),
+    ).toEqual([IPC_CANCEL_CHANNEL, IPC_CHANNELS_CHANNEL])
+  })
+
+  it('should answer the registered channels synchronously', async () => {
+    handler.registerMethod('test.first', vi.fn())
+    handler.registerMethod('test.second', vi.fn())
+
+    const channelsListener = (ipcMain.on as any).mock.calls[1][1]
+    const event = { returnValue: undefined }
+    channelsListener(event)
+
+    expect(event.returnValue).toEqual(['test.first', 'test.second'])
+  })
+
+  describe('streams', () => {
+    it('should stream chunks of async generators', async () => {
+      const sender = createMockSender()
+      const contexts: IpcContext[] = []
+
+      handler.registerMethod('test.count', async function* (to: number) {
+        for (let i = 1; i <= to; i++) {
+          contexts.push(getIpcContext())
+          yield i
+        }
+      })
+
+      const method = await getHandle('test.count')
+      const envelope = await method({ sender }, 2)
+      expect(envelope).toEqual({ [IPC_STREAM_KEY]: expect.any(String) })
+
+      const pull = await getHandle(IPC_STREAM_CHANNEL)
+      const streamId = envelope[IPC_STREAM_KEY]
+
+      await expect(pull({ sender }, streamId, 'next')).resolves.toEqual({
+        done: false,
+        value: 1,
+      })
+      await expect(pull({ sender }, streamId, 'next')).resolves.toEqual({
+        done: false,
+        value: 2,
+      })
+      await expect(pull({ sender }, streamId, 'next')).resolves.toEqual({
+        done: true,
+        value: undefined,
+      })
+      // The stream is closed once it is done
+      await expect(pull({ sender }, streamId, 'next')).resolves.toEqual({
+        done: true,
+        value: undefined,
+      })
+      expect(contexts[0].sender).toBe(sender)
+    })
+
+    it('should only register the stream channel once', async () => {
+      const sender = createMockSender()
+
+      handler.registerMethod('test.stream', async function* () {})
+
+      const method = await getHandle('test.stream')
+      await method({ sender })
+      await method({ sender })
+
+      expect(
+        (ipcMain.handle as any).mock.calls.filter(
+          ([channel]: [string]) => channel === IPC_STREAM_CHANNEL,
+        ),
+      ).toHaveLength(1)
+    })
+
+    it('should close the stream when the client returns early', async () => {
+      const sender = createMockSender()
+      const cleanup = vi.fn()
+
+      handler.registerMethod('test.tail', async function* () {
+        try {
+          yield 'line'
+          yield 'line'
+        } finally {
+          cleanup()
+        }
+      })
+
+      const method = await getHandle('test.tail')
+      const { [IPC_STREAM_KEY]: streamId } = await method({ sender })
+      const pull = await getHandle(IPC_STREAM_CHANNEL)
+
+      await pull({ sender }, streamId, 'next')
+      await expect(pull({ sender }, streamId, 'return')).resolves.toEqual({
+        done: true,
+        value: undefined,
+      })
+      expect(cleanup).toHaveBeenCalled()
+    })
+
+    it('should close iterables without a return method', async () => {
+      const sender = createMockSender()
+      const next = vi.fn().mockResolvedValue({ done: false, value: 1 })
+
+      handler.registerMethod('test.iterable', () => ({
+        [Symbol.asyncIterator]: () => ({ next }),
+      }))
+
+      const method = await getHandle('test.iterable')
+      const { [IPC_STREAM_KEY]: streamId } = await method({ sender })
+      const pull = await getHandle(IPC_STREAM_CHANNEL)
+
+      await expect(pull({ sender }, streamId, 'return')).resolves.toEqual({
+        done: true,
+        value: undefined,
+      })
+      await pull({ sender }, streamId, 'next')
+      expect(next).not.toHaveBeenCalled()
+    })
+
+    it('should return errors thrown while streaming', async () => {
+      const consoleErrorSpy = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {})
+      const sender = createMockSender()
+
+      handler.registerMethod('test.fail', async function* () {
+        throw new Error('Stream failed')
+      })
+
+      const method = await getHandle('test.fail')
+      const { [IPC_STREAM_KEY]: streamId } = await method({ sender })
+      const pull = await getHandle(IPC_STREAM_CHANNEL)
+
+      const result = await pull({ sender }, streamId, 'next')
+      expect(result[IPC_ERROR_KEY]).toMatchObject({ message: 'Stream failed' })
+
+      consoleErrorSpy.mockRestore()
+    })
+
+    it('should not let other senders pull the stream', async () => {
+      const sender = createMockSender()
+      const next = vi.fn()
+
+      handler.registerMethod('test.private', () => ({
+        [Symbol.asyncIterator]: () => ({ next }),
+      }))
+
+      const method = await getHandle('test.private')
+      const { [IPC_STREAM_KEY]: streamId } = await method({ sender })
+      const pull = await getHandle(IPC_STREAM_CHANNEL)
+
+      await expect(
+        pull({ sender: createMockSender() }, streamId, 'next'),
+      ).resolves.toEqual({ done: true, value: undefined })
+      expect(next).not.toHaveBeenCalled()
+    })
+
+    it('should end the stream when the call is cancelled', async () => {
+      const sender = createMockSender()
+      const cleanup = vi.fn()
+
+      handler.registerMethod('test.cancel', async function* () {
+        try {
+          yield 1
+          yield 2
+        } finally {
+          cleanup()
+        }
+      })
+
+      const method = await getHandle('test.cancel')
+      const { [IPC_STREAM_KEY]: streamId } = await method(
+        { sender },
+        ...appendCallMeta([], { requestId: 'request-1' }),
+      )
+      const pull = await getHandle(IPC_STREAM_CHANNEL)
+      await pull({ sender }, streamId, 'next')
+
+      const cancelListener = (ipcMain.on as any).mock.calls[0][1]
+      cancelListener({ sender }, 'request-1')
+
+      await vi.waitFor(() => expect(cleanup).toHaveBeenCalled())
+      await expect(pull({ sender }, streamId, 'next')).resolves.toEqual({
+        done: true,
+        value: undefined,
+      })
+    })
+
+    it('should ignore errors when closing a cancelled stream', async () => {
+      const sender = createMockSender()
+      const iteratorReturn = vi.fn().mockRejectedValue(new Error('Failed'))
+
+      handler.registerMethod('test.cancel', () => ({
+        [Symbol.asyncIterator]: () => ({
+          next: vi.fn(),
+          return: iteratorReturn,
+        }),
+      }))
+      handler.registerMethod('test.plain', () => ({
+        [Symbol.asyncIterator]: () => ({ next: vi.fn() }),
+      }))
+
+      const method = await getHandle('test.cancel')
+      await method({ sender }, ...appendCallMeta([], { requestId: 'a' }))
+      const plain = await getHandle('test.plain')
+      await plain({ sender }, ...appendCallMeta([], { requestId: 'b' }))
+
+      const cancelListener = (ipcMain.on as any).mock.calls[0][1]
+      cancelListener({ sender }, 'a')
+      cancelListener({ sender }, 'b')
+
+      expect(iteratorReturn).toHaveBeenCalled()
+    })
+  })
+
+  describe('ports', () => {
+    const createMockPort = () =>
+      Object.assign(new EventEmitter(), {
+        postMessage: vi.fn(),
+        start: vi.fn(),
+      })
+
+    it('should serve registered methods over a connected port', async () => {
+      const port = createMockPort()
+      const sender = createMockSender()
+
+      handler.registerMethod('test.method', (name: string) => {
+        const context = getIpcContext()
+        expect(context.sender).toBe(sender)
+        expect(context.event.senderFrame).toBe(sender.mainFrame)
+        return `Hello, ${name}`
+      })
+      handler.connectPort(port as any, sender as any)
+      expect(port.start).toHaveBeenCalled()
+
+      port.emit('message', { data: { type: 'result', id: 1, result: null } })
+      port.emit('message', {
+        data: { type: 'invoke', id: 1, channel: 'test.method', args: ['A'] },
+      })
+
+      await vi.waitFor(() =>
+        expect(port.postMessage).toHaveBeenCalledWith({
+          type: 'result',
+          id: 1,
+          result: 'Hello, A',
+        }),
+      )
+      expect(port.postMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return an error for unknown channels', async () => {
+      const port = createMockPort()
+      handler.connectPort(port as any, createMockSender() as any)
+
+      port.emit('message', {
+        data: { type: 'invoke', id: 1, channel: 'test.missing', args: [] },
+      })
+
+      await vi.waitFor(() => expect(port.postMessage).toHaveBeenCalled())
+      expect(port.postMessage.mock.calls[0][0].result).toMatchObject({
+        [IPC_ERROR_KEY]: {
+          message: "No handler registered for 'test.missing'",
+          code: 'NOT_FOUND',
+        },
+      })
+    })
+
+    it('should answer malformed calls with an error', async () => {
+      const port = createMockPort()
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      handler.registerMethod('test.method', () => 'result')
+      handler.connectPort(port as any, createMockSender() as any)
+
+      port.emit('message', { data: null })
+      port.emit('message', {
+        data: {
+          type: 'invoke',
+          id: 1,
+          channel: 'test.method',
+          args: [{ __ipc_call__: null }],
+        },
+      })
+      port.emit('message', {
+        data: {
+          type: 'invoke',
+          id: 2,
+          channel: IPC_BATCH_CHANNEL,
+          args: [null],
+        },
+      })
+
+      await vi.waitFor(() => expect(port.postMessage).toHaveBeenCalledTimes(2))
+      for (const [message] of port.postMessage.mock.calls) {
+        expect(message.result).toHaveProperty(IPC_ERROR_KEY)
+      }
+      consoleSpy.mockRestore()
+    })
+
+    it('should answer calls whose result cannot be sent', async () => {
+      const port = createMockPort()
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      // Posting clones the message, like a MessagePort does
+      port.postMessage.mockImplementation((message) => structuredClone(message))
+      handler.registerMethod('test.method', () => ({ compute: () => 1 }))
+      handler.connectPort(port as any, createMockSender() as any)
+
+      port.emit('message', {
+        data: { type: 'invoke', id: 1, channel: 'test.method', args: [] },
+      })
+
+      await vi.waitFor(() => expect(port.postMessage).toHaveBeenCalledTimes(2))
+      expect(port.postMessage.mock.calls[1][0]).toMatchObject({
+        type: 'result',
+        id: 1,
+        result: {
+          [IPC_ERROR_KEY]: expect.objectContaining({ name: 'DataCloneError' }),
+        },
+      })
+      consoleSpy.mockRestore()
+    })
+
+    it('should ignore messages sent without a list of arguments', async () => {
+      const port = createMockPort()
+      handler.registerMethod('test.method', () => 'result')
+      handler.connectPort(port as any, createMockSender() as any)
+
+      port.emit('message', {
+        data: { type: 'send', channel: IPC_CANCEL_CHANNEL, args: null },
+      })
+      port.emit('message', {
+        data: { type: 'invoke', id: 1, channel: 'test.method', args: [] },
+      })
+
+      await vi.waitFor(() =>
+        expect(port.postMessage).toHaveBeenCalledWith({
+          type: 'result',
+          id: 1,
+          result: 'result',
+        }),
+      )
+    })
+
+    it('should cancel calls made over the port', async () => {
+      const port = createMockPort()
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      let started = false
+      handler.registerMethod('test.cancel', () => {
+        const { signal } = getIpcContext()
+        started = true
+        return new Promise((_, reject) =>
+          signal.addEventListener('abort', () => reject(signal.reason)),
+        )
+      })
+      handler.connectPort(port as any, createMockSender() as any)
+
+      port.emit('message', {
+        data: {
+          type: 'invoke',
+          id: 1,
+          channel: 'test.cancel',
+          args: appendCallMeta([], { requestId: 'request-1' }),
+        },
+      })
+      await vi.waitFor(() => expect(started).toBe(true))
+      port.emit('message', {
+        data: { type: 'send', channel: 'test.unknown', args: [] },
+      })
+      port.emit('message', {
+        data: {
+          type: 'send',
+          channel: IPC_CANCEL_CHANNEL,
+          args: ['request-1'],
+        },
+      })
+
+      await vi.waitFor(() => expect(port.postMessage).toHaveBeenCalled())
+      expect(port.postMessage.mock.calls[0][0].result).toMatchObject({
+        [IPC_ERROR_KEY]: { code: 'CANCELLED' },
+      })
+      consoleSpy.mockRestore()
+    })
+
+    it('should broadcast events to ports without a sender', () => {
+      const port = createMockPort()
+      const senderPort = createMockPort()
+
+      handler.connectPort(port as any)
+      handler.connectPort(senderPort as any, createMockSender() as any)
+      handler.broadcast('test.event', 'payload')
+
+      expect(port.postMessage).toHaveBeenCalledWith({
+        type: 'event',
+        channel: 'test.event',
+        payload: 'payload',
+      })
+      expect(senderPort.postMessage).not.toHaveBeenCalled()
+    })
+
+    it('should push events to ports connected for the WebContents', () => {
+      const port = createMockPort()
+      const otherPort = createMockPort()
+      const sender = createMockSender()
+
+      handler.connectPort(port as any, sender as any)
+      handler.connectPort(otherPort as any, createMockSender() as any)
+      handler.sendToRenderer(sender as any, 'test.event', 'payload')
+
+      expect(sender.send).toHaveBeenCalledWith('test.event', 'payload')
+      expect(port.postMessage).toHaveBeenCalledWith({
+        type: 'event',
+        channel: 'test.event',
+        payload: 'payload',
+      })
+      expect(otherPort.postMessage).not.toHaveBeenCalled()
+
+      port.emit('close')
+      handler.sendToRenderer(sender as any, 'test.event', 'payload')
+      expect(port.postMessage).toHaveBeenCalledTimes(1)
+    })
+  })
+
   it('should handle synchronous handlers', async () => {
-    const { ipcMain } = await import('electron')
     const mockHandler = vi.fn().mockReturnValue('sync-result')
 
     handler.registerMethod('test.sync', mockHandler)
 
     const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
     const mockEvent = {
-      sender: { send: vi.fn() },
+      sender: createMockSender(),
     }
 
     const result = await registeredHandler(mockEvent, 'arg1')
     expect(result).toBe('sync-result')
   })
 
+  it('should warn once when a deprecated method is called', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    handler.registerMethod('test.old', vi.fn(), {
+      deprecated: 'Use test.new',
+    })
+    handler.registerMethod('test.older', vi.fn(), { deprecated: true })
+
+    const oldHandler = await getHandle('test.old')
+    const olderHandler = await getHandle('test.older')
+    const mockEvent = { sender: createMockSender() }
+    await oldHandler(mockEvent)
+    await oldHandler(mockEvent)
+    await olderHandler(mockEvent)
+
+    expect(warnSpy.mock.calls).toEqual([
+      ['IPC method test.old is deprecated: Use test.new'],
+      ['IPC method test.older is deprecated'],
+    ])
+    warnSpy.mockRestore()
+  })
+
+  it('should validate input before calling the handler', async () => {
+    const mockHandler = vi.fn((input: string) => input)
+
+    handler.registerMethod('test.input', mockHandler, { input: stringSchema })
+
+    const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+    const mockEvent = {
+      sender: createMockSender(),
+    }
+
+    await expect(registeredHandler(mockEvent, '  value  ')).resolves.toBe(
+      'value',
+    )
+    expect(mockHandler).toHaveBeenCalledWith('value')
+  })
+
+  it('should reject invalid input without calling the handler', async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+    const mockHandler = vi.fn()
+
+    handler.registerMethod('test.input', mockHandler, { input: stringSchema })
+
+    const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+    const mockEvent = {
+      sender: createMockSender(),
+    }
+
+    const result = await registeredHandler(mockEvent, 42)
+
+    expect(result[IPC_ERROR_KEY]).toMatchObject({
+      name: 'IpcValidationError',
+      code: 'VALIDATION_ERROR',
+      data: { target: 'input' },
+    })
+    expect(mockHandler).not.toHaveBeenCalled()
+
+    consoleErrorSpy.mockRestore()
+  })
+
+  it('should validate output', async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    handler.registerMethod('test.output', () => ' ok ', {
+      output: stringSchema,
+    })
+    handler.registerMethod('test.badOutput', () => 42, {
+      output: stringSchema,
+    })
+
+    const okHandler = await getHandle('test.output')
+    const badHandler = await getHandle('test.badOutput')
+    const mockEvent = {
+      sender: createMockSender(),
+    }
+
+    await expect(okHandler(mockEvent)).resolves.toBe('ok')
+    await expect(badHandler(mockEvent)).resolves.toMatchObject({
+      [IPC_ERROR_KEY]: {
+        code: 'VALIDATION_ERROR',
+        data: { target: 'output' },
+      },
+    })
+
+    consoleErrorSpy.mockRestore()
+  })
+
+  it('should run global middleware with the call context', async () => {
+    const middleware = vi.fn(async (ctx: any, next: () => Promise<unknown>) => {
+      ctx.args = ctx.args.map((arg: string) => arg.toUpperCase())
+      return `${await next()}!`
+    })
+
+    expect(handler.use(middleware)).toBe(handler)
+    handler.registerMethod('test.upper', (value: string) => value)
+
+    const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+    const mockEvent = {
+      sender: createMockSender(),
+    }
+
+    await expect(registeredHandler(mockEvent, 'hi')).resolves.toBe('HI!')
+    expect(middleware).toHaveBeenCalledWith(
+      {
+        channel: 'test.upper',
+        args: ['HI'],
+        context: {
+          sender: mockEvent.sender,
+          event: mockEvent,
+          signal: expect.any(AbortSignal),
+        },
+      },
+      expect.any(Function),
+    )
+  })
+
   it('should send to renderer', () => {
     const mockWebContents = {
       send: vi.fn(),
@@ -220,6 +1078,324 @@ describe('IpcHandler', () => {
       data: 'test',
     })
   })
+
+  it('should broadcast to every renderer', () => {
+    const first = { send: vi.fn() }
+    const second = { send: vi.fn() }
+    mockWebContents.getAllWebContents.mockReturnValueOnce([first, second])
+
+    handler.broadcast('test-channel', 'payload')
+
+    expect(first.send).toHaveBeenCalledWith('test-channel', 'payload')
+    expect(second.send).toHaveBeenCalledWith('test-channel', 'payload')
+  })
+})
+
+describe('IpcHandler instances', () => {
+  // Handler registered on a fake target for `channel`
+  const getHandle = (
+    target: ReturnType<typeof createTarget>,
+    channel: string,
+  ) =>
+    target.handle.mock.calls.find(([registered]) => registered === channel)![1]
+
+  class AppService extends IpcService {
+    static readonly groupName = 'app'
+
+    readonly updated = this.defineEvent<string>()
+
+    @IpcMethod()
+    getVersion() {
+      return '1.0.0'
+    }
+
+    @IpcMethod()
+    async *watch() {
+      yield 'changed'
+    }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(IpcHandler as any).instance = undefined
+  })
+
+  it('should register methods on their own target', async () => {
+    const target = createTarget()
+    const handler = new IpcHandler({ target })
+
+    handler.registerMethod('app.getVersion', () => '1.0.0')
+
+    expect(target.handle).toHaveBeenCalledWith(
+      'app.getVersion',
+      expect.any(Function),
+    )
+    expect(ipcMain.handle).not.toHaveBeenCalled()
+    expect(handler.getChannels()).toEqual(['app.getVersion'])
+    expect(IpcHandler.getInstance().getChannels()).toEqual([])
+
+    handler.removeMethod('app.getVersion')
+    expect(target.removeHandler).toHaveBeenCalledWith('app.getVersion')
+  })
+
+  it('should create services on the given handler', async () => {
+    const target = createTarget()
+    const handler = new IpcHandler({ target })
+
+    const services = createServices([AppService], { handler })
+
+    expect(handler.getChannels()).toEqual(['app.getVersion', 'app.watch'])
+    expect(ipcMain.handle).not.toHaveBeenCalled()
+    await expect(
+      getHandle(target, 'app.getVersion')({ sender: createMockSender() }),
+    ).resolves.toBe('1.0.0')
+
+    await services.dispose()
+    expect(target.removeHandler).toHaveBeenCalledWith('app.getVersion')
+  })
+
+  it('should prefix the channels of methods, events and streams', async () => {
+    const target = createTarget()
+    const sender = createMockSender()
+    mockWebContents.getAllWebContents.mockReturnValueOnce([sender])
+    const handler = new IpcHandler({ target, prefix: 'editor' })
+
+    const services = createServices([AppService], { handler })
+    services.app.updated.emit('saved')
+
+    expect(handler.getChannels()).toEqual([
+      'editor.app.getVersion',
+      'editor.app.watch',
+    ])
+    expect(sender.send).toHaveBeenCalledWith('editor.app.updated', 'saved')
+
+    const envelope = await getHandle(target, 'editor.app.watch')({ sender })
+    await expect(
+      getHandle(target, `editor.${IPC_STREAM_CHANNEL}`)(
+        { sender },
+        envelope[IPC_STREAM_KEY],
+        'next',
+      ),
+    ).resolves.toEqual({ done: false, value: 'changed' })
+
+    await services.dispose()
+    expect(target.removeHandler).toHaveBeenCalledWith('editor.app.getVersion')
+  })
+
+  it('should answer the channels of every handler on a target', () => {
+    const target = createTarget()
+    new IpcHandler({ target }).registerMethod('app.getVersion', vi.fn())
+    new IpcHandler({ target, prefix: 'editor' }).registerMethod(
+      'app.getVersion',
+      vi.fn(),
+    )
+
+    const event = { returnValue: undefined }
+    for (const [channel, listener] of target.on.mock.calls) {
+      if (channel === IPC_CHANNELS_CHANNEL) {
+        listener(event)
+      }
+    }
+
+    expect(event.returnValue).toEqual([
+      'app.getVersion',
+      'editor.app.getVersion',
+    ])
+  })
+
+  it('should answer the channels of a window and of ipcMain once', async () => {
+    createServices([AppService])
+    const window = createTarget()
+    new IpcHandler({ target: window }).registerMethod(
+      'document.getTitle',
+      vi.fn(),
+    )
+
+    // Electron sends the reply when returnValue is set, which reads back as
+    // undefined
+    const replies: unknown[] = []
+    const createEvent = (ipc: unknown) => ({
+      sender: { ipc },
+      set returnValue(value: unknown) {
+        replies.push(value)
+      },
+      get returnValue() {
+        return undefined
+      },
+    })
+    const event = createEvent(window)
+    const listeners = [
+      ...window.on.mock.calls,
+      ...(ipcMain.on as any).mock.calls,
+    ].filter(([channel]) => channel === IPC_CHANNELS_CHANNEL)
+    for (const [, listener] of listeners) {
+      listener(event)
+    }
+
+    // Windows without scoped services only reach ipcMain
+    const [, mainListener] = listeners.at(-1)!
+    mainListener(createEvent(createTarget()))
+
+    expect(listeners).toHaveLength(2)
+    expect(replies).toEqual([
+      ['document.getTitle', 'app.getVersion', 'app.watch'],
+      ['app.getVersion', 'app.watch'],
+    ])
+  })
+
+  it('should answer each call of a batch', async () => {
+    const target = createTarget()
+    const handler = new IpcHandler({ target, prefix: 'editor' })
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    handler.registerMethod('app.getVersion', () => '1.0.0')
+    handler.registerMethod('app.reset', () => {
+      throw new Error('Reset failed')
+    })
+
+    const results = await getHandle(target, `editor.${IPC_BATCH_CHANNEL}`)(
+      { sender: createMockSender() },
+      [
+        { channel: 'editor.app.getVersion', args: [] },
+        { channel: 'editor.app.reset', args: [] },
+        { channel: 'editor.app.missing', args: [] },
+      ],
+    )
+
+    expect(results).toEqual([
+      '1.0.0',
+      expect.objectContaining({
+        [IPC_ERROR_KEY]: expect.objectContaining({ message: 'Reset failed' }),
+      }),
+      expect.objectContaining({
+        [IPC_ERROR_KEY]: expect.objectContaining({ code: 'NOT_FOUND' }),
+      }),
+    ])
+    expect(target.handle).toHaveBeenCalledTimes(3)
+    expect(handler.getChannels()).toEqual([
+      'editor.app.getVersion',
+      'editor.app.reset',
+    ])
+    error.mockRestore()
+  })
+
+  it('should tell clients to drop cached results', () => {
+    const renderer = { send: vi.fn() }
+    mockWebContents.getAllWebContents.mockReturnValue([renderer])
+    const handler = new IpcHandler({ target: createTarget(), prefix: 'editor' })
+
+    handler.invalidateCache(['app.getVersion'])
+    handler.invalidateCache()
+
+    expect(renderer.send.mock.calls).toEqual([
+      [`editor.${IPC_CACHE_CHANNEL}`, ['editor.app.getVersion']],
+      [`editor.${IPC_CACHE_CHANNEL}`, undefined],
+    ])
+    mockWebContents.getAllWebContents.mockReturnValue([])
+  })
+
+  it('should answer calls to ipcMain methods in batches of a window', async () => {
+    createServices([AppService])
+    const window = createTarget()
+    new IpcHandler({ target: window }).registerMethod(
+      'document.getTitle',
+      () => 'Notes',
+    )
+
+    await expect(
+      getHandle(window, IPC_BATCH_CHANNEL)({ sender: createMockSender() }, [
+        { channel: 'document.getTitle', args: [] },
+        { channel: 'app.getVersion', args: [] },
+      ]),
+    ).resolves.toEqual(['Notes', '1.0.0'])
+  })
+
+  it('should share internal channels between handlers of a target', async () => {
+    class DocumentService extends IpcService {
+      static readonly groupName = 'document'
+
+      @IpcMethod()
+      getTitle() {
+        return 'Notes'
+      }
+
+      @IpcMethod()
+      async *lines() {
+        yield 'first'
+      }
+    }
+    const sender = createMockSender()
+    const serializer = {
+      serialize: (value: unknown) => ({ value }),
+      deserialize: (value: unknown) => value,
+    }
+    createServices([AppService])
+    createServices([DocumentService], {
+      handler: new IpcHandler({ serializer }),
+    })
+
+    await expect(
+      getHandle(ipcMain, IPC_BATCH_CHANNEL)({ sender }, [
+        { channel: 'app.getVersion', args: [] },
+        { channel: 'document.getTitle', args: [] },
+      ]),
+    ).resolves.toEqual(['1.0.0', { value: 'Notes' }])
+
+    // The stream channel is registered by the first handler streaming, and
+    // chunks are serialized by the handler of the stream
+    await getHandle(ipcMain, 'app.watch')({ sender })
+    const envelope = await getHandle(ipcMain, 'document.lines')({ sender })
+    await expect(
+      getHandle(ipcMain, IPC_STREAM_CHANNEL)(
+        { sender },
+        envelope[IPC_STREAM_KEY],
+        'next',
+      ),
+    ).resolves.toEqual({ done: false, value: { value: 'first' } })
+    expect(
+      ipcMain.handle.mock.calls.filter(([channel]) =>
+        channel.startsWith('__ipc__'),
+      ),
+    ).toHaveLength(2)
+  })
+
+  it('should share internal channels of handlers on a window', async () => {
+    const window = createTarget()
+    createServices([AppService], {
+      handler: new IpcHandler({ target: window }),
+    })
+    new IpcHandler({ target: window }).registerMethod(
+      'document.getTitle',
+      () => 'Notes',
+    )
+
+    await expect(
+      getHandle(window, IPC_BATCH_CHANNEL)({ sender: createMockSender() }, [
+        { channel: 'document.getTitle', args: [] },
+        { channel: 'app.getVersion', args: [] },
+      ]),
+    ).resolves.toEqual(['Notes', '1.0.0'])
+  })
+
+  it('should stop wiring services to a handler when creation fails', () => {
+    class FailingService extends IpcService {
+      static readonly groupName = 'failing'
+
+      constructor() {
+        super()
+        throw new Error('Failed to create')
+      }
+    }
+    const handler = new IpcHandler({ target: createTarget() })
+
+    expect(() => createServices([FailingService], { handler })).toThrow(
+      'Failed to create',
+    )
+    createServices([AppService])
+    expect(IpcHandler.getInstance().getChannels()).toEqual([
+      'app.getVersion',
+      'app.watch',
+    ])
+  })
 })
 
 describe('IpcService', () => {
@@ -230,8 +1406,6 @@ describe('IpcService', () => {
   })
 
   it('should register methods on construction', async () => {
-    const { ipcMain } = await import('electron')
-
     class TestService extends IpcService {
       static readonly groupName = 'test'
 
@@ -250,8 +1424,6 @@ describe('IpcService', () => {
   })
 
   it('should bind methods correctly', async () => {
-    const { ipcMain } = await import('electron')
-
     class TestService extends IpcService {
       static readonly groupName = 'test'
       private value = 'instance-value'
@@ -266,7 +1438,7 @@ describe('IpcService', () => {
 
     const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
     const mockEvent = {
-      sender: { send: vi.fn() },
+      sender: createMockSender(),
     }
 
     const result = await registeredHandler(mockEvent)
@@ -274,8 +1446,6 @@ describe('IpcService', () => {
   })
 
   it('should handle multiple methods', async () => {
-    const { ipcMain } = await import('electron')
-
     class TestService extends IpcService {
       static readonly groupName = 'test'
 
@@ -302,9 +1472,131 @@ describe('IpcService', () => {
     )
   })
 
-  it('should skip non-function properties', async () => {
-    const { ipcMain } = await import('electron')
+  it('should pass method options to the handler', async () => {
+    class TestService extends IpcService {
+      static readonly groupName = 'test'
+
+      @IpcMethod({ input: stringSchema })
+      echo(input: string) {
+        return input
+      }
+    }
+
+    new TestService()
+
+    const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+    const mockEvent = {
+      sender: createMockSender(),
+    }
+
+    await expect(registeredHandler(mockEvent, ' hi ')).resolves.toBe('hi')
+  })
+
+  it('should apply service and method sender policies', async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    class TestService extends IpcService {
+      static readonly groupName = 'test'
+      static readonly policy = { origins: ['https://app.example.com'] }
+
+      @IpcMethod()
+      read() {
+        return 'read'
+      }
+
+      @IpcMethod({ allow: { mainFrameOnly: true } })
+      write() {
+        return 'write'
+      }
+    }
+
+    new TestService()
+
+    const readHandler = await getHandle('test.read')
+    const writeHandler = await getHandle('test.write')
+    const forbidden = { [IPC_ERROR_KEY]: { code: 'FORBIDDEN' } }
+    const createEvent = (origin: string, parent: unknown = null) => ({
+      sender: createMockSender(),
+      senderFrame: { origin, parent },
+    })
+
+    await expect(
+      readHandler(createEvent('https://app.example.com')),
+    ).resolves.toBe('read')
+    await expect(
+      readHandler(createEvent('https://evil.example.com')),
+    ).resolves.toMatchObject(forbidden)
+    await expect(
+      writeHandler(createEvent('https://app.example.com')),
+    ).resolves.toBe('write')
+    await expect(
+      writeHandler(createEvent('https://app.example.com', {})),
+    ).resolves.toMatchObject(forbidden)
+
+    consoleErrorSpy.mockRestore()
+  })
+
+  it('should run global, service and method middleware in order', async () => {
+    const calls: string[] = []
+    const track = (name: string) => (_: unknown, next: () => unknown) => {
+      calls.push(name)
+      return next()
+    }
+
+    IpcHandler.getInstance().use(track('global'))
 
+    class TestService extends IpcService {
+      static readonly groupName = 'test'
+      static readonly middleware = [track('service')]
+
+      @IpcMethod({ middleware: [track('method')] })
+      run() {
+        calls.push('handler')
+      }
+    }
+
+    new TestService()
+
+    const registeredHandler = (ipcMain.handle as any).mock.calls[0][1]
+    await registeredHandler({ sender: createMockSender() })
+
+    expect(calls).toEqual(['global', 'service', 'method', 'handler'])
+  })
+
+  it('should reject disallowed senders before middleware runs', async () => {
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+    const cached = vi.fn(() => 'from-cache')
+
+    class TestService extends IpcService {
+      static readonly groupName = 'test'
+      static readonly policy = { origins: ['https://app.example.com'] }
+      static readonly middleware = [cached]
+
+      @IpcMethod()
+      secret() {
+        return 'secret'
+      }
+    }
+
+    new TestService()
+
+    const registeredHandler = await getHandle('test.secret')
+    await expect(
+      registeredHandler({
+        sender: createMockSender(),
+        senderFrame: { origin: 'https://evil.example', parent: null },
+      }),
+    ).resolves.toMatchObject({ [IPC_ERROR_KEY]: { code: 'FORBIDDEN' } })
+    expect(cached).not.toHaveBeenCalled()
+
+    consoleErrorSpy.mockRestore()
+  })
+
+  it('should skip non-function properties', async () => {
     class TestService extends IpcService {
       static readonly groupName = 'test'
 
@@ -319,8 +1611,8 @@ describe('IpcService', () => {
 
     new TestService()
 
-    // Should only register testMethod
-    expect(ipcMain.handle).toHaveBeenCalledTimes(1)
+    // Should only register testMethod, besides the batch channel
+    expect(ipcMain.handle).toHaveBeenCalledTimes(2)
     expect(ipcMain.handle).toHaveBeenCalledWith(
       'test.testMethod',
       expect.any(Function),
@@ -328,8 +1620,6 @@ describe('IpcService', () => {
   })
 
   it('should skip properties that are in metadata but not functions', async () => {
-    const { ipcMain } = await import('electron')
-
     // Create a service and manually manipulate its prototype
     class TestService extends IpcService {
       static readonly groupName = 'test'
@@ -362,8 +1652,6 @@ describe('IpcService', () => {
   })
 
   it('should handle service with no decorated methods', async () => {
-    const { ipcMain } = await import('electron')
-
     class EmptyService extends IpcService {
       static readonly groupName = 'empty'
     }
@@ -374,6 +1662,114 @@ describe('IpcService', () => {
   })
 })
 
+describe('IpcService events', () => {
+  class UpdateService extends IpcService {
+    static readonly groupName = 'update'
+
+    readonly updateAvailable = this.defineEvent<{ version: string }>()
+    readonly checked = this.defineEvent()
+
+    notify(version: string) {
+      this.updateAvailable.emit({ version })
+    }
+
+    notifyWindow(target: any, version: string) {
+      this.updateAvailable.emitTo(target, { version })
+    }
+
+    notifyChecked(target: any[]) {
+      this.checked.emitTo(target)
+    }
+
+    emitDetached() {
+      this.defineEvent().emit()
+    }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(IpcHandler as any).instance = undefined
+  })
+
+  it('should broadcast declared events on the group channel', () => {
+    const renderer = { send: vi.fn() }
+    mockWebContents.getAllWebContents.mockReturnValueOnce([renderer])
+
+    new UpdateService().notify('2.0.0')
+
+    expect(renderer.send).toHaveBeenCalledWith('update.updateAvailable', {
+      version: '2.0.0',
+    })
+  })
+
+  it('should emit to a single renderer', () => {
+    const renderer = { send: vi.fn() }
+
+    new UpdateService().notifyWindow(renderer, '2.0.0')
+
+    expect(renderer.send).toHaveBeenCalledWith('update.updateAvailable', {
+      version: '2.0.0',
+    })
+    expect(mockWebContents.getAllWebContents).not.toHaveBeenCalled()
+  })
+
+  it('should emit to a list of renderers', () => {
+    const first = { send: vi.fn() }
+    const second = { send: vi.fn() }
+
+    new UpdateService().notifyChecked([first, second])
+
+    expect(first.send).toHaveBeenCalledWith('update.checked', undefined)
+    expect(second.send).toHaveBeenCalledWith('update.checked', undefined)
+  })
+
+  it('should drop the cached results of its methods', () => {
+    class LocaleService extends IpcService {
+      static readonly groupName = 'locale'
+
+      @IpcMethod({ cache: { ttl: 60_000 } })
+      getLocale() {
+        return 'en'
+      }
+
+      @IpcMethod({ cache: { ttl: 60_000 } })
+      getMessages() {
+        return {}
+      }
+
+      switchLocale() {
+        this.invalidateCache('getLocale')
+        this.invalidateCache()
+      }
+    }
+    class EmptyService extends IpcService {
+      static readonly groupName = 'empty'
+
+      clear() {
+        this.invalidateCache()
+      }
+    }
+    const renderer = { send: vi.fn() }
+    mockWebContents.getAllWebContents.mockReturnValue([renderer])
+
+    new LocaleService().switchLocale()
+    new EmptyService().clear()
+
+    expect(renderer.send.mock.calls).toEqual([
+      [IPC_CACHE_CHANNEL, ['locale.getLocale']],
+      [IPC_CACHE_CHANNEL, ['locale.getLocale', 'locale.getMessages']],
+      [IPC_CACHE_CHANNEL, []],
+    ])
+    mockWebContents.getAllWebContents.mockReturnValue([])
+  })
+
+  it('should throw when emitting an event that is not a field', () => {
+    expect(() => new UpdateService().emitDetached()).toThrow(
+      'Event must be assigned to a field of UpdateService before it is emitted',
+    )
+  })
+})
+
 describe('createServices', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -418,6 +1814,50 @@ describe('createServices', () => {
     )
   })
 
+  it('should reject services sharing a groupName before registering them', async () => {
+    class AppService extends IpcService {
+      static readonly groupName = 'app'
+
+      @IpcMethod()
+      getVersion() {
+        return '1.0.0'
+      }
+    }
+    class CopiedService extends IpcService {
+      static readonly groupName = 'app'
+    }
+
+    expect(() => createServices([AppService, CopiedService])).toThrow(
+      "Services AppService and CopiedService share the groupName 'app'",
+    )
+    expect(ipcMain.handle).not.toHaveBeenCalled()
+  })
+
+  it('should name both services of conflicting channels', () => {
+    class AppService extends IpcService {
+      static readonly groupName = 'app'
+
+      @IpcMethod()
+      getVersion() {
+        return '1.0.0'
+      }
+    }
+    class LegacyAppService extends IpcService {
+      static readonly groupName = 'app'
+
+      @IpcMethod()
+      getVersion() {
+        return '0.9.0'
+      }
+    }
+
+    createServices([AppService])
+
+    expect(() => createServices([LegacyAppService])).toThrow(
+      'IPC channel app.getVersion of LegacyAppService is already registered by AppService',
+    )
+  })
+
   it('should create single service', () => {
     class TestService extends IpcService {
       static readonly groupName = 'test'
@@ -460,4 +1900,142 @@ describe('createServices', () => {
     expect(services.app).toBeInstanceOf(AppService)
     expect(services.user).toBeInstanceOf(UserService)
   })
+
+  describe('lifecycle', () => {
+    const calls: string[] = []
+
+    class AppService extends IpcService {
+      static readonly groupName = 'app'
+
+      @IpcMethod()
+      getVersion() {
+        return '1.0.0'
+      }
+
+      protected onInit() {
+        calls.push('app.init')
+      }
+
+      protected async onDispose() {
+        calls.push('app.dispose')
+      }
+    }
+
+    class UserService extends IpcService {
+      static readonly groupName = 'user'
+
+      @IpcMethod()
+      getName() {
+        return 'John'
+      }
+
+      protected onInit() {
+        calls.push('user.init')
+      }
+
+      protected onDispose() {
+        calls.push('user.dispose')
+      }
+    }
+
+    beforeEach(() => {
+      calls.length = 0
+    })
+
+    it('should initialize services once every service is created', () => {
+      createServices([AppService, UserService])
+
+      expect(calls).toEqual(['app.init', 'user.init'])
+    })
+
+    it('should not expose the container as services', () => {
+      const services = createServices([AppService])
+
+      expect(Object.keys(services)).toEqual(['app'])
+      expect(services.dispose).toBeTypeOf('function')
+      expect(services[Symbol.asyncDispose]).toBe(services.dispose)
+    })
+
+    it('should remove the methods of disposed services', async () => {
+      const handler = IpcHandler.getInstance()
+      const services = createServices([AppService, UserService])
+
+      await services.dispose()
+
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('user.getName')
+      expect(ipcMain.removeHandler).toHaveBeenCalledWith('app.getVersion')
+      expect(handler.getChannels()).toEqual([])
+      expect(calls).toEqual([
+        'app.init',
+        'user.init',
+        'user.dispose',
+        'app.dispose',
+      ])
+    })
+
+    it('should dispose services only once', async () => {
+      const services = createServices([AppService])
+
+      await Promise.all([services.dispose(), services[Symbol.asyncDispose]()])
+      await services.dispose()
+
+      expect(calls).toEqual(['app.init', 'app.dispose'])
+    })
+
+    it('should register new instances once disposed', async () => {
+      const first = createServices([AppService])
+      await first.dispose()
+
+      const second = createServices([AppService])
+      const [, handler] = (ipcMain.handle as any).mock.calls.at(-1)
+
+      expect(IpcHandler.getInstance().getChannels()).toEqual(['app.getVersion'])
+      expect(
+        (ipcMain.handle as any).mock.calls.filter(
+          ([channel]: [string]) => channel === 'app.getVersion',
+        ),
+      ).toHaveLength(2)
+      await expect(handler({ sender: createMockSender() })).resolves.toBe(
+        '1.0.0',
+      )
+      expect(second.app).not.toBe(first.app)
+    })
+
+    it('should not remove methods replaced by other services', async () => {
+      class NextAppService extends IpcService {
+        static readonly groupName = 'app'
+
+        @IpcMethod()
+        getVersion() {
+          return '2.0.0'
+        }
+      }
+      IpcHandler.getInstance().onConflict = 'replace'
+
+      const first = createServices([AppService])
+      createServices([NextAppService])
+      await first.dispose()
+
+      expect(IpcHandler.getInstance().getChannels()).toEqual(['app.getVersion'])
+    })
+
+    it('should dispose every service when a hook fails', async () => {
+      const error = new Error('Failed to close')
+      class FailingService extends IpcService {
+        static readonly groupName = 'failing'
+
+        protected onDispose() {
+          throw error
+        }
+      }
+
+      const services = createServices([AppService, FailingService])
+
+      await expect(services.dispose()).rejects.toMatchObject({
+        message: 'Failed to dispose IPC services',
+        errors: [error],
+      })
+      expect(calls).toContain('app.dispose')
+    })
+  })
 })
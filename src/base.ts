@@ -1,18 +1,61 @@
 import { AsyncLocalStorage } from 'node:async_hooks'
-import type { IpcMainInvokeEvent, WebContents } from 'electron'
-import { ipcMain } from 'electron'
+import type { IpcMainEvent, IpcMainInvokeEvent, WebContents } from 'electron'
+import { getElectron } from './electron'
+import {
+  IpcError,
+  IpcTimeoutError,
+  serializeError,
+  validateSchema,
+} from './errors'
+import {
+  instantiateServices,
+  type IpcDependency,
+  type IpcProvider,
+} from './inject'
+import { runMiddleware, type IpcMiddleware } from './middleware'
+import { assertSenderAllowed, type IpcSenderPolicy } from './policy'
+import {
+  IPC_BATCH_CHANNEL,
+  IPC_CACHE_CHANNEL,
+  IPC_CANCEL_CHANNEL,
+  IPC_CHANNELS_CHANNEL,
+  IPC_ERROR_KEY,
+  IPC_STREAM_CHANNEL,
+  IPC_STREAM_KEY,
+  splitCallMeta,
+  type IpcBatchCall,
+  type IpcErrorEnvelope,
+  type IpcPortMessage,
+  type IpcStreamAction,
+  type IpcStreamEnvelope,
+} from './protocol'
+import { passthroughSerializer, type IpcSerializer } from './serializer'
+import type { StandardSchemaV1 } from './standard-schema'
 
-// Base context for IPC methods
-export interface IpcContext {
+// Context of any IPC call, wherever the service runs
+export interface IpcCallContext {
+  // Missing for calls made by the parent of a utility process
+  sender?: WebContents
+  event?: IpcMainInvokeEvent
+  // Aborted when the caller cancels the call, the sender is destroyed or the
+  // deadline is reached
+  signal: AbortSignal
+  // Time (in ms since the epoch) by which the call must complete, if it has
+  // a timeout
+  deadline?: number
+}
+
+// Context of calls made by renderers
+export interface IpcContext extends IpcCallContext {
   sender: WebContents
   event: IpcMainInvokeEvent
 }
 
 // AsyncLocalStorage for context management
-const contextStorage = new AsyncLocalStorage<IpcContext>()
+const contextStorage = new AsyncLocalStorage<IpcCallContext>()
 
-// Get current IPC context from AsyncLocalStorage
-export function getIpcContext(): IpcContext {
+// Get current IPC call context from AsyncLocalStorage
+export function getIpcCallContext(): IpcCallContext {
   const context = contextStorage.getStore()
   if (!context) {
     throw new Error(
@@ -22,15 +65,107 @@ export function getIpcContext(): IpcContext {
   return context
 }
 
+// Get current IPC context of a call made by a renderer
+export function getIpcContext(): IpcContext {
+  const context = getIpcCallContext()
+  if (!context.sender) {
+    throw new Error(
+      'IPC call has no sender. Use getIpcCallContext() for calls that do not come from a renderer.',
+    )
+  }
+  return context as IpcContext
+}
+
+// Options accepted by @IpcMethod
+export interface IpcMethodOptions<
+  TInput extends StandardSchemaV1 | undefined = StandardSchemaV1 | undefined,
+  TOutput extends StandardSchemaV1 | undefined = StandardSchemaV1 | undefined,
+> {
+  // Validates the method input before the method body runs
+  input?: TInput
+  // Validates the value returned by the method
+  output?: TOutput
+  // Restricts which senders may call the method
+  allow?: IpcSenderPolicy | IpcSenderPolicy[]
+  // Middleware running around the method
+  middleware?: IpcMiddleware[]
+  // Mark the method as deprecated, optionally with a message pointing to its
+  // replacement. A warning is logged the first time it is called
+  deprecated?: boolean | string
+  // Time limit of the method (in ms), which callers may only shorten. Once
+  // reached, the call rejects with IpcTimeoutError and the signal is aborted
+  timeout?: number
+  // The method has no side effects, so clients given the manifest share the
+  // result of identical calls while they are in flight
+  idempotent?: boolean
+  // Clients given the manifest keep the result of identical calls for `ttl`
+  // ms, or until it is invalidated from the main process
+  cache?: { ttl: number }
+}
+
+// Method signature enforced by the schemas passed to @IpcMethod
+type SchemaMethod<TInput, TOutput> = (
+  ...args: TInput extends StandardSchemaV1
+    ? [input: StandardSchemaV1.InferOutput<TInput>]
+    : any[]
+) => TOutput extends StandardSchemaV1
+  ? MaybePromise<StandardSchemaV1.InferInput<TOutput>>
+  : any
+
+type MaybePromise<T> = T | Promise<T>
+
+declare const inputSchema: unique symbol
+declare const outputSchema: unique symbol
+
+// Parameter of a method validated by the `input` schema S. The method
+// receives the parsed value while the client is typed with the schema input
+export type IpcInput<S extends StandardSchemaV1> =
+  StandardSchemaV1.InferOutput<S> & { readonly [inputSchema]?: S }
+
+// Result of a method validated by the `output` schema S. The method returns
+// the value to parse while the client is typed with the schema output
+export type IpcOutput<S extends StandardSchemaV1> =
+  StandardSchemaV1.InferInput<S> & { readonly [outputSchema]?: S }
+
+// Type the client sends for a method parameter
+export type WireInput<T> = unknown extends T
+  ? T
+  : T extends { readonly [inputSchema]?: infer S }
+  ? unknown extends S
+    ? T
+    : StandardSchemaV1.InferInput<S & StandardSchemaV1>
+  : T
+
+// Type the client receives for a method result
+export type WireOutput<T> = unknown extends T
+  ? T
+  : T extends { readonly [outputSchema]?: infer S }
+  ? unknown extends S
+    ? T
+    : StandardSchemaV1.InferOutput<S & StandardSchemaV1>
+  : T
+
 // Metadata storage for decorated methods
-const methodMetadata = new WeakMap<any, Map<string, string>>()
+const methodMetadata = new WeakMap<any, Map<string, IpcMethodOptions>>()
+// Channels registered by each service instance, removed when it is disposed
+const serviceChannels = new WeakMap<IpcService, string[]>()
+
+// Options of the methods decorated on a service class
+export function getMethodMetadata(
+  constructor: Function,
+): ReadonlyMap<string, IpcMethodOptions> {
+  return methodMetadata.get(constructor) ?? new Map()
+}
 
 // Decorator for IPC methods
-export function IpcMethod() {
-  return function (
+export function IpcMethod<
+  TInput extends StandardSchemaV1 | undefined = undefined,
+  TOutput extends StandardSchemaV1 | undefined = undefined,
+>(options: IpcMethodOptions<TInput, TOutput> = {}) {
+  return function <TMethod extends SchemaMethod<TInput, TOutput>>(
     target: any,
     propertyKey: string,
-    descriptor: PropertyDescriptor,
+    descriptor: TypedPropertyDescriptor<TMethod>,
   ) {
     const { constructor } = target
 
@@ -39,17 +174,205 @@ export function IpcMethod() {
     }
 
     const methods = methodMetadata.get(constructor)!
-    methods.set(propertyKey, propertyKey)
+    methods.set(propertyKey, options)
 
     return descriptor
   }
 }
 
+// Typed event declared as a service field and pushed to renderers
+export class IpcEvent<TPayload = void> {
+  // Phantom field used to carry the payload type
+  declare readonly payload: TPayload
+
+  constructor(
+    private readonly send: (
+      event: IpcEvent<TPayload>,
+      payload: TPayload,
+      target?: WebContents | WebContents[],
+    ) => void,
+  ) {}
+
+  // Emit to every renderer
+  emit(payload: TPayload) {
+    this.send(this, payload)
+  }
+
+  // Emit to specific renderers
+  emitTo(target: WebContents | WebContents[], payload: TPayload) {
+    this.send(this, payload, target)
+  }
+}
+
+// Stream opened by a method returning an AsyncIterable
+interface IpcStream {
+  // Handler of the method that opened the stream
+  handler: IpcHandler
+  context: IpcCallContext
+  // Only the caller that opened the stream may pull from it
+  owner: object
+  iterator: AsyncIterator<unknown>
+  close: () => void
+}
+
+// Open streams, pulled chunk by chunk by the client. They are shared by every
+// handler, since only one stream handler per target receives the pulls, e.g.
+// the one of a window's webContents.ipc rather than the one of ipcMain
+const streams = new Map<string, IpcStream>()
+let streamCounter = 0
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as any)[Symbol.asyncIterator] === 'function'
+  )
+}
+
+type IpcInvokeHandler = (
+  event: IpcMainInvokeEvent,
+  ...args: any[]
+) => Promise<unknown>
+type IpcMessageListener = (event: IpcMainEvent, ...args: any[]) => void
+
+// Port served by `IpcHandler.connectPort`, e.g. a MessagePortMain or the
+// parentPort of a utility process
+export interface IpcServedPort {
+  on(event: 'message' | 'close', listener: (...args: any[]) => void): unknown
+  postMessage(message: any): void
+  start?(): void
+}
+
+export interface ConnectPortOptions {
+  // Receive every broadcast event, by default only ports without a sender do.
+  // Ports acting for a renderer receive its events either way
+  broadcast?: boolean
+}
+
+// What registerMethod does when a channel is already registered
+export type IpcConflictMode = 'throw' | 'warn' | 'replace'
+
+// Name of whatever registered a method, for conflict messages
+const describeOwner = (owner?: object) =>
+  owner ? owner.constructor.name : 'IpcHandler.registerMethod'
+
+// Part of IpcMain used by IpcHandler, e.g. `webContents.ipc` to only serve
+// one window, or a fake in tests
+export interface IpcTarget {
+  handle(
+    channel: string,
+    listener: (event: IpcMainInvokeEvent, ...args: any[]) => unknown,
+  ): void
+  removeHandler(channel: string): void
+  on(
+    channel: string,
+    listener: (event: IpcMainEvent, ...args: any[]) => void,
+  ): unknown
+}
+
+export interface IpcHandlerOptions {
+  // Where methods are registered, ipcMain by default
+  target?: IpcTarget
+  // Prepended to the channels of methods, events and streams, e.g. so that
+  // several handlers can share a target. Clients pass it as `namespace`
+  prefix?: string
+  // Only renderer receiving broadcast events, e.g. the window owning target
+  webContents?: WebContents
+  // Transforms arguments, results, stream chunks and events, e.g. with
+  // createSerializer({ codecs }). Clients pass the same one to createIpcProxy
+  serializer?: IpcSerializer
+}
+
+// Whether the app runs from sources rather than a packaged build
+function isUnpackaged() {
+  const { app } = getElectron()
+  return app ? !app.isPackaged : false
+}
+
+// Time limit of a call. Callers may shorten the limit of the method but not
+// lift it, since renderers are not trusted
+function getCallTimeout(requested: unknown, limit: number | undefined) {
+  if (
+    typeof requested !== 'number' ||
+    !Number.isFinite(requested) ||
+    requested <= 0
+  ) {
+    return limit
+  }
+  return limit ? Math.min(requested, limit) : requested
+}
+
+// Handler creating the services of the running createServices call
+let creatingHandler: IpcHandler | undefined
+// Services constructed by the running createServices call, including one
+// whose constructor threw, so their methods can be removed if it fails
+let constructedServices: IpcService[] | undefined
+
+// Handlers of each target, answering the channel query of the preload bridge
+// and the batches sent to the target together
+const targetHandlers = new WeakMap<IpcTarget, Set<IpcHandler>>()
+// Internal channels registered on each target. A target only takes one
+// handler per channel, so handlers with the same prefix share them
+const internalChannels = new WeakMap<IpcTarget, Set<string>>()
+// Electron replies to a sync message as soon as returnValue is set, so only
+// the first listener to run answers
+const answeredQueries = new WeakSet<IpcMainEvent>()
+
 // Handler registry for IPC methods
 export class IpcHandler {
   private static instance: IpcHandler
-  private registeredChannels = new Set<string>()
+  private readonly target?: IpcTarget
+  private readonly prefix: string
+  private readonly webContents?: WebContents
+  // Passed to createIpcProxy by clients of the handler
+  readonly serializer: IpcSerializer
+  // Handlers shared by the target and connected ports, keyed by channel
+  private handlers = new Map<string, IpcInvokeHandler>()
+  private listeners = new Map<string, IpcMessageListener>()
+  // Services that registered each method, if any
+  private owners = new Map<string, object | undefined>()
+  // Connected ports, the WebContents they act for, if any, and whether they
+  // receive broadcast events
+  private ports = new Map<
+    IpcServedPort,
+    { sender?: WebContents; broadcast: boolean }
+  >()
+  private middleware: IpcMiddleware[] = []
+  // In-flight calls per caller, keyed by request id (or by their controller)
+  private pendingCalls = new WeakMap<object, Map<unknown, AbortController>>()
+  private listeningForCancellation = false
+  private listeningForChannels = false
+  private listeningForStreams = false
+  private listeningForBatches = false
+  // Include error stacks in responses sent to the renderer, only during
+  // development since they reveal the source layout of the app
+  exposeErrorStack = isUnpackaged()
+  // Registering a channel twice throws by default, since the second method
+  // would otherwise never be called
+  onConflict: IpcConflictMode = 'throw'
+  // Time limit (in ms) of methods without their own timeout
+  defaultTimeout?: number
+
+  // ipcMain is only available in the main process, elsewhere methods are
+  // only served over connected ports
+  constructor({
+    target = getElectron().ipcMain,
+    prefix,
+    webContents,
+    serializer = passthroughSerializer,
+  }: IpcHandlerOptions = {}) {
+    this.target = target
+    this.prefix = prefix ? `${prefix}.` : ''
+    this.webContents = webContents
+    this.serializer = serializer
+  }
+
+  // Prefix of the channels, passed to createIpcProxy as `namespace`
+  get namespace(): string | undefined {
+    return this.prefix ? this.prefix.slice(0, -1) : undefined
+  }
 
+  // Handler used by services created without one
   static getInstance(): IpcHandler {
     if (!IpcHandler.instance) {
       IpcHandler.instance = new IpcHandler()
@@ -57,58 +380,558 @@ export class IpcHandler {
     return IpcHandler.instance
   }
 
+  // Register middleware running around every IPC method
+  use(...middleware: IpcMiddleware[]) {
+    this.middleware.push(...middleware)
+    return this
+  }
+
+  // `owner` is the service registering the method, named in conflicts
   registerMethod<TOutput>(
     channel: string,
     handler: (...args: any[]) => Promise<TOutput> | TOutput,
+    options: IpcMethodOptions = {},
+    owner?: object,
   ) {
-    if (this.registeredChannels.has(channel)) {
-      return // Already registered
+    channel = this.resolveChannel(channel)
+    if (this.handlers.has(channel)) {
+      const message = `IPC channel ${channel} of ${describeOwner(
+        owner,
+      )} is already registered by ${describeOwner(this.owners.get(channel))}`
+
+      if (this.onConflict === 'throw') {
+        throw new Error(message)
+      }
+      if (this.onConflict === 'warn') {
+        console.warn(`${message}, keeping the first method`)
+        return
+      }
+      this.removeMethod(channel)
     }
 
-    this.registeredChannels.add(channel)
+    this.owners.set(channel, owner)
+    this.listenForCancellation()
+    this.listenForChannels()
+    let warnedDeprecation = false
 
-    ipcMain.handle(
+    this.handle(
       channel,
-      async (event: IpcMainInvokeEvent, ...args: any[]) => {
-        const context: IpcContext = {
+      async (event: IpcMainInvokeEvent, ...rawArgs: any[]) => {
+        if (options.deprecated && !warnedDeprecation) {
+          warnedDeprecation = true
+          console.warn(
+            `IPC method ${channel} is deprecated` +
+              (typeof options.deprecated === 'string'
+                ? `: ${options.deprecated}`
+                : ''),
+          )
+        }
+
+        const { args: serializedArgs, meta } = splitCallMeta(rawArgs)
+        const { controller, release } = this.trackCall(event, meta.requestId)
+        const timeout = getCallTimeout(
+          meta.timeout,
+          options.timeout ?? this.defaultTimeout,
+        )
+        const context: IpcCallContext = {
           sender: event.sender,
           event,
+          signal: controller.signal,
+          deadline: timeout ? Date.now() + timeout : undefined,
         }
 
+        let streaming = false
         try {
-          return await contextStorage.run(context, () => handler(...args))
+          const args = this.serializer.deserialize(serializedArgs) as unknown[]
+          const result = await this.withTimeout(
+            channel,
+            controller,
+            timeout,
+            contextStorage.run(context, () =>
+              this.invokeMethod(channel, context, handler, args, options),
+            ),
+          )
+
+          if (isAsyncIterable(result)) {
+            streaming = true
+            return this.openStream(event, context, result, release)
+          }
+          return this.serializer.serialize(result)
         } catch (error) {
           console.error(`Error in IPC method ${channel}:`, error)
-          throw error
+          return this.createErrorEnvelope(error)
+        } finally {
+          // Streams stay in flight until they are closed
+          if (!streaming) {
+            release()
+          }
+        }
+      },
+    )
+    this.listenForBatches()
+  }
+
+  // Unregister a method, e.g. when its service is disposed. Calls already
+  // running are not cancelled. With an `owner`, the method is only removed
+  // if it was not replaced since
+  removeMethod(channel: string, owner?: object) {
+    channel = this.resolveChannel(channel)
+    if (owner && this.owners.get(channel) !== owner) {
+      return
+    }
+
+    this.handlers.delete(channel)
+    this.owners.delete(channel)
+    this.target?.removeHandler(channel)
+  }
+
+  // Channel of a method or event as seen by renderers, with the prefix
+  resolveChannel(channel: string) {
+    return `${this.prefix}${channel}`
+  }
+
+  // Channels of every registered method, with the prefix
+  getChannels(): string[] {
+    const internal = [IPC_STREAM_CHANNEL, IPC_BATCH_CHANNEL].map((channel) =>
+      this.resolveChannel(channel),
+    )
+    return [...this.handlers.keys()].filter(
+      (channel) => !internal.includes(channel),
+    )
+  }
+
+  private handle(channel: string, handler: IpcInvokeHandler) {
+    this.handlers.set(channel, handler)
+    this.target?.handle(channel, handler)
+  }
+
+  // Register an internal channel, unless another handler of the target did
+  private handleInternal(channel: string, handler: IpcInvokeHandler) {
+    this.handlers.set(channel, handler)
+    if (!this.target) {
+      return
+    }
+
+    if (!internalChannels.has(this.target)) {
+      internalChannels.set(this.target, new Set())
+    }
+    const channels = internalChannels.get(this.target)!
+    if (!channels.has(channel)) {
+      channels.add(channel)
+      this.target.handle(channel, handler)
+    }
+  }
+
+  private listen(channel: string, listener: IpcMessageListener) {
+    this.listeners.set(channel, listener)
+    this.target?.on(channel, listener)
+  }
+
+  // Serve every registered method over a port, e.g. a MessagePortMain whose
+  // other end is handed to a renderer or worker. Calls are attributed to the
+  // main frame of `sender`, which is also the target of events emitted to it.
+  // Ports without a sender, like the parentPort of a utility process, or
+  // connected with `broadcast` receive every broadcast event
+  connectPort(
+    port: IpcServedPort,
+    sender?: WebContents,
+    { broadcast = !sender }: ConnectPortOptions = {},
+  ) {
+    const event = (
+      sender ? { sender, senderFrame: sender.mainFrame } : {}
+    ) as IpcMainInvokeEvent & IpcMainEvent
+
+    port.on('message', async ({ data }) => {
+      // The peer may send anything, only messages are answered
+      if (typeof data !== 'object' || data === null) {
+        return
+      }
+      const message = data as IpcPortMessage
+
+      if (message.type === 'send') {
+        if (Array.isArray(message.args)) {
+          this.listeners.get(message.channel)?.(event, ...message.args)
+        }
+        return
+      }
+
+      if (message.type === 'invoke') {
+        const result =
+          message.channel === IPC_CHANNELS_CHANNEL
+            ? this.getChannels()
+            : await this.dispatch(
+                this.handlers.get(message.channel),
+                message.channel,
+                event,
+                message.args,
+              )
+
+        // Results that cannot be cloned are answered with an error, so the
+        // call still settles
+        try {
+          port.postMessage({ type: 'result', id: message.id, result })
+        } catch (error) {
+          console.error(`Error in IPC call to ${message.channel}:`, error)
+          port.postMessage({
+            type: 'result',
+            id: message.id,
+            result: this.createErrorEnvelope(error),
+          })
+        }
+      }
+    })
+    port.on('close', () => this.ports.delete(port))
+
+    this.ports.set(port, { sender, broadcast })
+    port.start?.()
+  }
+
+  // Call a method handler, or answer that the channel has none. Malformed
+  // calls, e.g. with arguments that are not a list, fail with an envelope too
+  private async dispatch(
+    handler: IpcInvokeHandler | undefined,
+    channel: string,
+    event: IpcMainInvokeEvent,
+    args: unknown[],
+  ): Promise<unknown> {
+    if (!handler) {
+      return this.createErrorEnvelope(
+        new IpcError(`No handler registered for '${channel}'`, {
+          code: 'NOT_FOUND',
+        }),
+      )
+    }
+
+    try {
+      return await handler(event, ...args)
+    } catch (error) {
+      console.error(`Error in IPC call to ${channel}:`, error)
+      return this.createErrorEnvelope(error)
+    }
+  }
+
+  // Answer batches of calls sent by clients with `batch` enabled. Each call
+  // runs through its method handler, so it fails on its own
+  private listenForBatches() {
+    if (this.listeningForBatches) {
+      return
+    }
+    this.listeningForBatches = true
+
+    this.handleInternal(
+      this.resolveChannel(IPC_BATCH_CHANNEL),
+      (event, calls: IpcBatchCall[]) =>
+        Promise.all(
+          calls.map(({ channel, args }) => {
+            const owner = this.findOwner(channel)
+            return owner.dispatch(
+              owner.handlers.get(channel),
+              channel,
+              event,
+              args,
+            )
+          }),
+        ),
+    )
+  }
+
+  // Handler whose method is registered on `channel`, looked up among the
+  // handlers of the target and of ipcMain, since a window's webContents.ipc
+  // receives every batch of the window. Defaults to this handler
+  private findOwner(channel: string): IpcHandler {
+    if (this.handlers.has(channel)) {
+      return this
+    }
+
+    for (const target of [this.target, getElectron().ipcMain]) {
+      for (const handler of targetHandlers.get(target!) ?? []) {
+        if (handler.handlers.has(channel)) {
+          return handler
+        }
+      }
+    }
+    return this
+  }
+
+  // Electron only keeps the message of thrown errors, so failures are
+  // returned as an envelope that the client proxy turns back into errors
+  private createErrorEnvelope(error: unknown): IpcErrorEnvelope {
+    return {
+      [IPC_ERROR_KEY]: serializeError(error, {
+        stack: this.exposeErrorStack,
+      }),
+    }
+  }
+
+  private openStream(
+    event: IpcMainInvokeEvent,
+    context: IpcCallContext,
+    iterable: AsyncIterable<unknown>,
+    release: () => void,
+  ): IpcStreamEnvelope {
+    this.listenForStreams()
+
+    const streamId = `${++streamCounter}`
+    const iterator = iterable[Symbol.asyncIterator]()
+    const close = () => {
+      streams.delete(streamId)
+      context.signal.removeEventListener('abort', onAbort)
+      release()
+    }
+    // Cancelled calls and destroyed senders end the stream
+    const onAbort = () => {
+      close()
+      iterator.return?.().catch(() => {})
+    }
+
+    context.signal.addEventListener('abort', onAbort, { once: true })
+    streams.set(streamId, {
+      handler: this,
+      context,
+      owner: this.getCallOwner(event),
+      iterator,
+      close,
+    })
+
+    return { [IPC_STREAM_KEY]: streamId }
+  }
+
+  private listenForStreams() {
+    if (this.listeningForStreams) {
+      return
+    }
+    this.listeningForStreams = true
+
+    // Pulls are answered by the handler of the stream, which may not be the
+    // one that registered the channel on the target
+    this.handleInternal(
+      this.resolveChannel(IPC_STREAM_CHANNEL),
+      async (event, streamId: string, action: IpcStreamAction) => {
+        const stream = streams.get(streamId)
+        if (!stream || stream.owner !== this.getCallOwner(event)) {
+          return { done: true, value: undefined }
+        }
+
+        try {
+          const result = await contextStorage.run(stream.context, async () =>
+            action === 'next'
+              ? stream.iterator.next()
+              : (await stream.iterator.return?.()) ?? {
+                  done: true,
+                  value: undefined,
+                },
+          )
+
+          if (action === 'return' || result.done) {
+            stream.close()
+          }
+          return {
+            ...result,
+            value: stream.handler.serializer.serialize(result.value),
+          }
+        } catch (error) {
+          stream.close()
+          console.error(`Error in IPC stream ${streamId}:`, error)
+          return stream.handler.createErrorEnvelope(error)
         }
       },
     )
   }
 
+  private listenForCancellation() {
+    if (this.listeningForCancellation) {
+      return
+    }
+    this.listeningForCancellation = true
+
+    this.listen(IPC_CANCEL_CHANNEL, (event, requestId: string) => {
+      this.pendingCalls
+        .get(this.getCallOwner(event))
+        ?.get(requestId)
+        ?.abort(
+          new IpcError('The call was cancelled by the renderer', {
+            code: 'CANCELLED',
+          }),
+        )
+    })
+  }
+
+  // Calls from ports without a sender are owned by the port's event
+  private getCallOwner(event: IpcMainInvokeEvent | IpcMainEvent): object {
+    return event.sender ?? event
+  }
+
+  // Answer the preload bridge, which only exposes the registered channels.
+  // Every handler on the target adds its channels to the answer
+  private listenForChannels() {
+    if (this.listeningForChannels) {
+      return
+    }
+    this.listeningForChannels = true
+
+    if (this.target) {
+      if (!targetHandlers.has(this.target)) {
+        targetHandlers.set(this.target, new Set())
+      }
+      targetHandlers.get(this.target)!.add(this)
+    }
+
+    this.listen(IPC_CHANNELS_CHANNEL, (event) => {
+      if (answeredQueries.has(event)) {
+        return
+      }
+      answeredQueries.add(event)
+
+      // Renderers reach the methods of their window's webContents.ipc and
+      // of ipcMain, whichever of them receives the query first
+      const targets = event.sender?.ipc
+        ? [event.sender.ipc, getElectron().ipcMain]
+        : [this.target]
+      event.returnValue = targets.flatMap((target) =>
+        [...(targetHandlers.get(target!) ?? [])].flatMap((handler) =>
+          handler.getChannels(),
+        ),
+      )
+    })
+  }
+
+  private trackCall(event: IpcMainInvokeEvent, requestId?: string) {
+    const owner = this.getCallOwner(event)
+    let calls = this.pendingCalls.get(owner)
+    if (!calls) {
+      const ownerCalls = new Map<unknown, AbortController>()
+      this.pendingCalls.set(owner, ownerCalls)
+      event.sender?.once('destroyed', () => {
+        for (const controller of ownerCalls.values()) {
+          controller.abort(
+            new IpcError('The sender was destroyed', {
+              code: 'SENDER_DESTROYED',
+            }),
+          )
+        }
+      })
+      calls = ownerCalls
+    }
+
+    const controller = new AbortController()
+    const key = requestId ?? controller
+    calls.set(key, controller)
+
+    return { controller, release: () => calls.delete(key) }
+  }
+
+  // Reject calls still running after `timeout`, without waiting for handlers
+  // that ignore the signal. Streams are not limited once opened
+  private withTimeout<T>(
+    channel: string,
+    controller: AbortController,
+    timeout: number | undefined,
+    call: Promise<T>,
+  ): Promise<T> {
+    if (!timeout) {
+      return call
+    }
+
+    let timer: ReturnType<typeof setTimeout>
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new IpcTimeoutError(channel, timeout)
+        controller.abort(error)
+        reject(error)
+      }, timeout)
+    })
+    return Promise.race([call, timedOut]).finally(() => clearTimeout(timer))
+  }
+
+  private async invokeMethod<TOutput>(
+    channel: string,
+    context: IpcCallContext,
+    handler: (...args: any[]) => Promise<TOutput> | TOutput,
+    args: any[],
+    { input, output, allow = [], middleware = [] }: IpcMethodOptions,
+  ) {
+    // Disallowed senders are rejected before any middleware runs
+    await assertSenderAllowed(context, channel, [allow].flat())
+    const ctx = { channel, args, context }
+
+    return runMiddleware([...this.middleware, ...middleware], ctx, async () => {
+      const args = input
+        ? [await validateSchema(input, ctx.args[0], 'input')]
+        : ctx.args
+      const result = await handler(...args)
+      return output ? validateSchema(output, result, 'output') : result
+    })
+  }
+
   // Send events to renderer
   sendToRenderer<T = any>(webContents: WebContents, channel: string, data: T) {
-    webContents.send(channel, data)
+    const payload = this.serializer.serialize(data)
+    webContents.send(channel, payload)
+
+    for (const [port, { sender }] of this.ports) {
+      if (sender === webContents) {
+        port.postMessage({ type: 'event', channel, payload })
+      }
+    }
+  }
+
+  // Make clients drop the results they cached for `channels`, or for every
+  // method
+  invalidateCache(channels?: string[]) {
+    this.broadcast(
+      this.resolveChannel(IPC_CACHE_CHANNEL),
+      channels?.map((channel) => this.resolveChannel(channel)),
+    )
+  }
+
+  // Send events to every renderer, or the handler's one, and to ports
+  // receiving broadcast events
+  broadcast<T = any>(channel: string, data: T) {
+    const receivers = this.webContents
+      ? [this.webContents]
+      : getElectron().webContents?.getAllWebContents() ?? []
+
+    for (const webContents of receivers) {
+      this.sendToRenderer(webContents, channel, data)
+    }
+
+    const payload = this.serializer.serialize(data)
+    for (const [port, { broadcast }] of this.ports) {
+      if (broadcast) {
+        port.postMessage({ type: 'event', channel, payload })
+      }
+    }
   }
 }
 
 // Base class for IPC service groups
 export abstract class IpcService {
-  protected handler = IpcHandler.getInstance()
+  protected handler = creatingHandler ?? IpcHandler.getInstance()
   static readonly groupName: string
+  // Sender policy applied to every method of the service
+  static readonly policy?: IpcSenderPolicy
+  // Middleware running around every method of the service
+  static readonly middleware?: IpcMiddleware[]
 
   constructor() {
+    constructedServices?.push(this)
     this.registerMethods()
   }
 
+  // Called by createServices once every service is created
+  protected onInit?(): void
+  // Called when the services are disposed, after their methods are removed
+  protected onDispose?(): void | Promise<void>
+
   protected registerMethods(): void {
     const { constructor } = this
     const methods = methodMetadata.get(constructor)
 
     if (methods) {
-      methods.forEach((methodName, propertyKey) => {
-        const method = (this as any)[propertyKey]
+      methods.forEach((options, methodName) => {
+        const method = (this as any)[methodName]
         if (typeof method === 'function') {
-          this.registerMethod(methodName, method.bind(this))
+          this.registerMethod(methodName, method.bind(this), options)
         }
       })
     }
@@ -117,27 +940,101 @@ export abstract class IpcService {
   protected registerMethod<TOutput>(
     methodName: string,
     handler: (...args: any[]) => Promise<TOutput> | TOutput,
+    options: IpcMethodOptions = {},
   ) {
-    const groupName = (this.constructor as typeof IpcService).groupName
+    const {
+      groupName,
+      policy,
+      middleware = [],
+    } = this.constructor as typeof IpcService
     const channel = `${groupName}.${methodName}`
-    this.handler.registerMethod(channel, handler)
+    serviceChannels.set(this, [...(serviceChannels.get(this) ?? []), channel])
+    this.handler.registerMethod(
+      channel,
+      handler,
+      {
+        ...options,
+        allow: [policy ?? [], options.allow ?? []].flat(),
+        middleware: [...middleware, ...(options.middleware ?? [])],
+      },
+      this,
+    )
+  }
+
+  // Make clients drop the results they cached for the given methods of the
+  // service, or for all of them
+  protected invalidateCache(...methodNames: (keyof this & string)[]) {
+    const { groupName } = this.constructor as typeof IpcService
+    this.handler.invalidateCache(
+      methodNames.length > 0
+        ? methodNames.map((methodName) => `${groupName}.${methodName}`)
+        : serviceChannels.get(this) ?? [],
+    )
+  }
+
+  // Declare an event, emitted with `this.someEvent.emit(payload)`
+  protected defineEvent<TPayload = void>(): IpcEvent<TPayload> {
+    return new IpcEvent<TPayload>((event, payload, target) => {
+      const channel = this.getEventChannel(event)
+
+      if (!target) {
+        this.handler.broadcast(channel, payload)
+        return
+      }
+
+      for (const webContents of Array.isArray(target) ? target : [target]) {
+        this.handler.sendToRenderer(webContents, channel, payload)
+      }
+    })
+  }
+
+  private getEventChannel(event: IpcEvent<any>): string {
+    const eventName = Object.keys(this).find(
+      (key) => (this as any)[key] === event,
+    )
+    if (!eventName) {
+      throw new Error(
+        `Event must be assigned to a field of ${this.constructor.name} before it is emitted`,
+      )
+    }
+
+    const groupName = (this.constructor as typeof IpcService).groupName
+    return this.handler.resolveChannel(`${groupName}.${eventName}`)
   }
 }
 
 // Service constructor with groupName
 export interface IpcServiceConstructor {
-  new (): IpcService
+  new (...args: any[]): IpcService
   readonly groupName: string
+  // Services and tokens passed to the constructor, in order
+  readonly inject?: readonly IpcDependency[]
+}
+
+export interface CreateServicesOptions {
+  // Values of the tokens services depend on
+  providers?: IpcProvider[]
+  // Handler registering the methods, IpcHandler.getInstance() by default
+  handler?: IpcHandler
+}
+
+// Disposable container returned by createServices
+export interface IpcServiceContainer {
+  // Remove the methods of every service, then run their onDispose hooks
+  dispose(): Promise<void>
+  [Symbol.asyncDispose](): Promise<void>
 }
 
 // Create services function that infers types from service constructors
 export function createServices<T extends readonly IpcServiceConstructor[]>(
   serviceConstructors: T,
+  { providers = [], handler }: CreateServicesOptions = {},
 ): CreateServicesResult<T> {
   const services = {} as any
+  const groups = new Map<string, IpcServiceConstructor>()
 
+  // Check every group before any method is registered
   for (const ServiceConstructor of serviceConstructors) {
-    const instance = new ServiceConstructor()
     const groupName = ServiceConstructor.groupName
 
     if (!groupName) {
@@ -146,13 +1043,83 @@ export function createServices<T extends readonly IpcServiceConstructor[]>(
       )
     }
 
-    services[groupName] = instance
+    const existing = groups.get(groupName)
+    if (existing) {
+      throw new Error(
+        `Services ${existing.name} and ${ServiceConstructor.name} share the groupName '${groupName}'`,
+      )
+    }
+    groups.set(groupName, ServiceConstructor)
+  }
+
+  // Services pick up the handler when their fields are initialized
+  const previousHandler = creatingHandler
+  const previousServices = constructedServices
+  const constructed: IpcService[] = []
+  creatingHandler = handler
+  constructedServices = constructed
+  let created: Map<IpcServiceConstructor, IpcService>
+  try {
+    created = instantiateServices([...groups.values()], providers)
+  } catch (error) {
+    // Free the channels of the services created so far, so that creating
+    // them again does not conflict
+    constructed.forEach(removeServiceMethods)
+    throw error
+  } finally {
+    creatingHandler = previousHandler
+    constructedServices = previousServices
+  }
+  for (const [groupName, ServiceConstructor] of groups) {
+    services[groupName] = created.get(ServiceConstructor)
+  }
+
+  // Hooks run in creation order, so dependencies are initialized first
+  const instances = [...created.values()]
+  for (const instance of instances) {
+    ;(instance as any).onInit?.()
   }
 
+  let disposed: Promise<void> | undefined
+  const dispose = () => (disposed ??= disposeServices(instances))
+
+  // Not enumerable, so the container can be iterated as a record of services
+  Object.defineProperties(services, {
+    dispose: { value: dispose },
+    [Symbol.asyncDispose]: { value: dispose },
+  })
+
   return services
 }
 
+// Dispose services in reverse creation order, reporting every failed hook
+async function disposeServices(instances: IpcService[]) {
+  const errors: unknown[] = []
+
+  for (const instance of [...instances].reverse()) {
+    removeServiceMethods(instance)
+
+    try {
+      await (instance as any).onDispose?.()
+    } catch (error) {
+      errors.push(error)
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AggregateError(errors, 'Failed to dispose IPC services')
+  }
+}
+
+function removeServiceMethods(instance: IpcService) {
+  const handler = (instance as any).handler as IpcHandler
+  for (const channel of serviceChannels.get(instance) ?? []) {
+    handler.removeMethod(channel, instance)
+  }
+  serviceChannels.delete(instance)
+}
+
 // Helper type for createServices return type
 type CreateServicesResult<T extends readonly IpcServiceConstructor[]> = {
   [K in T[number] as K['groupName']]: InstanceType<K>
-}
+} & IpcServiceContainer
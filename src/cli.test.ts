@@ -0,0 +1,129 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { runCli } from './cli'
+
+describe('runCli', () => {
+  let directory: string
+  let project: string
+
+  const createOutput = () => ({ log: vi.fn(), error: vi.fn() })
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'ipc-cli-'))
+    project = join(directory, 'tsconfig.json')
+    writeFileSync(
+      join(directory, 'services.ts'),
+      `
+abstract class IpcService {}
+const IpcMethod = () => (_target: any, _key: string) => {}
+
+export class AppService extends IpcService {
+  static readonly groupName = 'app'
+
+  @IpcMethod()
+  getVersion() {
+    return '1.0.0'
+  }
+}
+`,
+    )
+    writeFileSync(
+      project,
+      JSON.stringify({
+        compilerOptions: { strict: true, experimentalDecorators: true },
+        files: ['services.ts'],
+      }),
+    )
+  })
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should print the typings of the project', () => {
+    const output = createOutput()
+
+    expect(runCli(['generate', '--project', project], output)).toBe(0)
+    expect(output.log).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'export type IpcServices = {\n  app: {\n    getVersion: () => Promise<string>\n  }\n}',
+      ),
+    )
+  })
+
+  it('should write the typings and the JSON surface', () => {
+    const output = createOutput()
+    const out = join(directory, 'ipc.d.ts')
+    const json = join(directory, 'ipc.json')
+
+    expect(
+      runCli(
+        ['generate', '--project', project, '--out', out, '--json', json],
+        output,
+      ),
+    ).toBe(0)
+    expect(output.log).not.toHaveBeenCalled()
+    expect(readFileSync(out, 'utf8')).toContain(
+      'getVersion: () => Promise<string>',
+    )
+    expect(JSON.parse(readFileSync(json, 'utf8'))).toEqual({
+      channels: [
+        {
+          channel: 'app.getVersion',
+          group: 'app',
+          method: 'getVersion',
+          params: [],
+          returns: 'Promise<string>',
+          stream: false,
+        },
+      ],
+      events: [],
+    })
+  })
+
+  it('should only write the JSON surface when asked to', () => {
+    const output = createOutput()
+    const json = join(directory, 'only.json')
+
+    expect(
+      runCli(
+        ['generate', '--project', project, '--json', json, '--type', 'Api'],
+        output,
+      ),
+    ).toBe(0)
+    expect(output.log).not.toHaveBeenCalled()
+    expect(readFileSync(json, 'utf8')).toContain('"app.getVersion"')
+  })
+
+  it('should print the usage', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const output = createOutput()
+
+    expect(runCli(['--help'])).toBe(0)
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Usage:'))
+    expect(runCli([], output)).toBe(1)
+    expect(runCli(['generate', 'extra'], output)).toBe(1)
+    expect(output.error).toHaveBeenCalledTimes(2)
+    log.mockRestore()
+  })
+
+  it('should report errors', () => {
+    const output = createOutput()
+
+    expect(runCli(['generate', '--unknown'], output)).toBe(1)
+    expect(
+      runCli(
+        ['generate', '--project', join(directory, 'missing.json')],
+        output,
+      ),
+    ).toBe(1)
+    expect(output.error).toHaveBeenCalledWith(
+      expect.stringContaining("Unknown option '--unknown'"),
+    )
+    expect(output.error).toHaveBeenCalledWith(
+      expect.stringContaining('Cannot read file'),
+    )
+  })
+})
@@ -0,0 +1,62 @@
+import { writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { generateIpcSurface } from './generate'
+
+const usage = `Usage: electron-ipc-decorator generate [options]
+
+Options:
+  --project <path>  tsconfig.json of the main process (default: tsconfig.json)
+  --out <path>      Write the renderer typings to this .d.ts file
+  --json <path>     Write the JSON description of the IPC surface to this file
+  --type <name>     Name of the exported client type (default: IpcServices)`
+
+// Run the command line with the given arguments and return the exit code
+export function runCli(
+  args: string[],
+  output: {
+    log: (message: string) => void
+    error: (message: string) => void
+  } = console,
+) {
+  try {
+    const { positionals, values } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        project: { type: 'string' },
+        out: { type: 'string' },
+        json: { type: 'string' },
+        type: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+
+    if (values.help) {
+      output.log(usage)
+      return 0
+    }
+    if (positionals[0] !== 'generate' || positionals.length > 1) {
+      output.error(usage)
+      return 1
+    }
+
+    const { declaration, surface } = generateIpcSurface({
+      project: values.project,
+      typeName: values.type,
+    })
+
+    // Print the typings when no output file is given
+    if (values.out) {
+      writeFileSync(values.out, declaration)
+    } else if (!values.json) {
+      output.log(declaration)
+    }
+    if (values.json) {
+      writeFileSync(values.json, `${JSON.stringify(surface, null, 2)}\n`)
+    }
+    return 0
+  } catch (error) {
+    output.error((error as Error).message)
+    return 1
+  }
+}
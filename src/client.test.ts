@@ -1,5 +1,21 @@
-import { describe, expect, it, vi } from 'vitest'
-import { createIpcProxy } from './client'
+import { afterEach, describe, expect, expectTypeOf, it, vi } from 'vitest'
+import {
+  createIpcProxy,
+  IpcError,
+  IpcTimeoutError,
+  IpcValidationError,
+  type IpcCall,
+} from './client'
+import {
+  IPC_BATCH_CHANNEL,
+  IPC_CACHE_CHANNEL,
+  IPC_CANCEL_CHANNEL,
+  IPC_ERROR_KEY,
+  IPC_STREAM_CHANNEL,
+  IPC_STREAM_KEY,
+  splitCallMeta,
+  type IpcBatchCall,
+} from './protocol'
 
 describe('createIpcProxy', () => {
   it('should return null when ipc is null', () => {
@@ -136,6 +152,50 @@ describe('createIpcProxy', () => {
     await expect(proxy!.app.riskyMethod()).rejects.toThrow('IPC Error')
   })
 
+  it('should rehydrate errors returned by the main process', async () => {
+    const mockIpc = {
+      invoke: vi.fn().mockResolvedValue({
+        [IPC_ERROR_KEY]: {
+          name: 'IpcValidationError',
+          message: 'Invalid input: Required',
+          code: 'VALIDATION_ERROR',
+          data: { target: 'input', issues: [] },
+        },
+      }),
+    }
+
+    const proxy = createIpcProxy<{
+      app: {
+        update: (input: unknown) => Promise<void>
+      }
+    }>(mockIpc as any)
+
+    const error = await proxy!.app.update({}).catch((e) => e)
+
+    expect(error).toBeInstanceOf(IpcValidationError)
+    expect(error).toBeInstanceOf(IpcError)
+    expect(error.code).toBe('VALIDATION_ERROR')
+    expect(error.target).toBe('input')
+  })
+
+  it('should rehydrate registered error classes', async () => {
+    class QuotaError extends Error {}
+
+    const mockIpc = {
+      invoke: vi.fn().mockResolvedValue({
+        [IPC_ERROR_KEY]: { name: 'QuotaError', message: 'Quota exceeded' },
+      }),
+    }
+
+    const proxy = createIpcProxy<{
+      app: {
+        upload: () => Promise<void>
+      }
+    }>(mockIpc as any, { errors: [QuotaError] })
+
+    await expect(proxy!.app.upload()).rejects.toBeInstanceOf(QuotaError)
+  })
+
   it('should handle complex argument types', async () => {
     const mockIpc = {
       invoke: vi.fn().mockResolvedValue({ success: true }),
@@ -198,4 +258,868 @@ describe('createIpcProxy', () => {
     expect(mockIpc.invoke).toHaveBeenCalledWith('anyGroup.anyMethod', 'arg')
     expect(result).toBe('dynamic')
   })
+
+  it('should call the channels of a namespace', async () => {
+    const mockIpc = {
+      invoke: vi.fn(async (channel: string) =>
+        channel === `editor.${IPC_STREAM_CHANNEL}`
+          ? { done: true, value: undefined }
+          : channel === 'editor.logs.tail'
+          ? { [IPC_STREAM_KEY]: 'stream-1' }
+          : '1.0.0',
+      ),
+      on: vi.fn(() => () => {}),
+    }
+    const proxy = createIpcProxy<{
+      app: {
+        getVersion: () => Promise<string>
+        on: (event: 'updated', listener: () => void) => () => void
+      }
+      logs: { tail: () => AsyncIterable<string> }
+    }>(mockIpc as any, { namespace: 'editor' })
+
+    await expect(proxy!.app.getVersion()).resolves.toBe('1.0.0')
+    proxy!.app.on('updated', vi.fn())
+    for await (const _ of proxy!.logs.tail()) {
+      // The stream is empty
+    }
+
+    expect(mockIpc.invoke).toHaveBeenCalledWith('editor.app.getVersion')
+    expect(mockIpc.on).toHaveBeenCalledWith(
+      'editor.app.updated',
+      expect.any(Function),
+    )
+    expect(mockIpc.invoke).toHaveBeenCalledWith(
+      `editor.${IPC_STREAM_CHANNEL}`,
+      'stream-1',
+      'next',
+    )
+  })
+
+  describe('events', () => {
+    const createMockIpc = () => {
+      const listeners = new Map<string, Set<(...args: any[]) => void>>()
+      return {
+        invoke: vi.fn(),
+        on: vi.fn((channel: string, listener: (...args: any[]) => void) => {
+          if (!listeners.has(channel)) {
+            listeners.set(channel, new Set())
+          }
+          listeners.get(channel)!.add(listener)
+        }),
+        removeListener: vi.fn(
+          (channel: string, listener: (...args: any[]) => void) => {
+            listeners.get(channel)?.delete(listener)
+          },
+        ),
+        emit(channel: string, payload: unknown) {
+          for (const listener of [...(listeners.get(channel) ?? [])]) {
+            listener({}, payload)
+          }
+        },
+      }
+    }
+
+    type Services = {
+      app: {
+        on: (
+          event: 'updateAvailable',
+          listener: (payload: { version: string }) => void,
+        ) => () => void
+        once: (
+          event: 'updateAvailable',
+          listener: (payload: { version: string }) => void,
+        ) => () => void
+        off: (
+          event: 'updateAvailable',
+          listener: (payload: { version: string }) => void,
+        ) => void
+      }
+    }
+
+    it('should subscribe to events on the group channel', () => {
+      const mockIpc = createMockIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const listener = vi.fn()
+
+      proxy!.app.on('updateAvailable', listener)
+      mockIpc.emit('app.updateAvailable', { version: '2.0.0' })
+
+      expect(mockIpc.on).toHaveBeenCalledWith(
+        'app.updateAvailable',
+        expect.any(Function),
+      )
+      expect(listener).toHaveBeenCalledWith({ version: '2.0.0' })
+      expect(mockIpc.invoke).not.toHaveBeenCalled()
+    })
+
+    it('should unsubscribe with off', () => {
+      const mockIpc = createMockIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const listener = vi.fn()
+
+      proxy!.app.on('updateAvailable', listener)
+      proxy!.app.off('updateAvailable', listener)
+      mockIpc.emit('app.updateAvailable', { version: '2.0.0' })
+
+      expect(mockIpc.removeListener).toHaveBeenCalledTimes(1)
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should unsubscribe with the returned function', () => {
+      const mockIpc = createMockIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const listener = vi.fn()
+
+      const dispose = proxy!.app.on('updateAvailable', listener)
+      dispose()
+      mockIpc.emit('app.updateAvailable', { version: '2.0.0' })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should only call once listeners a single time', () => {
+      const mockIpc = createMockIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const listener = vi.fn()
+
+      proxy!.app.once('updateAvailable', listener)
+      mockIpc.emit('app.updateAvailable', { version: '2.0.0' })
+      mockIpc.emit('app.updateAvailable', { version: '3.0.0' })
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ version: '2.0.0' })
+    })
+
+    it('should not subscribe the same listener twice', () => {
+      const mockIpc = createMockIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const listener = vi.fn()
+
+      proxy!.app.on('updateAvailable', listener)
+      proxy!.app.on('updateAvailable', listener)
+      mockIpc.emit('app.updateAvailable', { version: '2.0.0' })
+
+      expect(mockIpc.on).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    it('should ignore off for unknown listeners', () => {
+      const mockIpc = createMockIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+
+      proxy!.app.off('updateAvailable', vi.fn())
+
+      expect(mockIpc.removeListener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('interceptors', () => {
+    type Services = {
+      app: {
+        search: (input: string) => Promise<string[]>
+      }
+    }
+
+    it('should run before and after interceptors in order', async () => {
+      const calls: string[] = []
+      const mockIpc = {
+        invoke: vi.fn(async () => {
+          calls.push('invoke')
+          return ['result']
+        }),
+      }
+
+      const proxy = createIpcProxy<Services>(mockIpc as any, {
+        interceptors: [
+          {
+            before: () => {
+              calls.push('first:before')
+            },
+            after: (_, result) => {
+              calls.push(`first:after:${result}`)
+            },
+          },
+          {
+            before: async () => {
+              calls.push('second:before')
+            },
+          },
+        ],
+      })
+
+      await expect(proxy!.app.search('query')).resolves.toEqual(['result'])
+      expect(calls).toEqual([
+        'first:before',
+        'second:before',
+        'invoke',
+        'first:after:result',
+      ])
+    })
+
+    it('should let before interceptors transform args', async () => {
+      const mockIpc = {
+        invoke: vi.fn().mockResolvedValue([]),
+      }
+
+      const proxy = createIpcProxy<Services>(mockIpc as any, {
+        interceptors: [
+          {
+            before: (call) => {
+              call.args = call.args.map((arg) => arg.trim())
+            },
+          },
+        ],
+      })
+
+      await proxy!.app.search('  query  ')
+
+      expect(mockIpc.invoke).toHaveBeenCalledWith('app.search', 'query')
+    })
+
+    it('should run error interceptors and rethrow', async () => {
+      const error = new Error('IPC Error')
+      const mockIpc = {
+        invoke: vi.fn().mockRejectedValue(error),
+      }
+      const onError = vi.fn()
+
+      const proxy = createIpcProxy<Services>(mockIpc as any, {
+        interceptors: [{ error: onError }, {}],
+      })
+
+      await expect(proxy!.app.search('query')).rejects.toBe(error)
+      expect(onError).toHaveBeenCalledWith(
+        {
+          channel: 'app.search',
+          args: ['query'],
+          options: {},
+        } satisfies IpcCall,
+        error,
+      )
+    })
+  })
+
+  describe('call options', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    type Services = {
+      app: {
+        search: (input: string) => Promise<string[]>
+      }
+    }
+
+    it('should type withOptions like the method itself', () => {
+      const proxy = createIpcProxy<Services>({} as any)
+
+      expectTypeOf(proxy!.app.search.withOptions({})).toEqualTypeOf<
+        (input: string) => Promise<string[]>
+      >()
+    })
+
+    it('should call with per-call options', async () => {
+      const mockIpc = {
+        invoke: vi.fn().mockResolvedValue(['result']),
+      }
+      const before = vi.fn()
+
+      const proxy = createIpcProxy<Services>(mockIpc as any, {
+        timeout: 1000,
+        interceptors: [{ before }],
+      })
+
+      const result = await proxy!.app.search.withOptions({ timeout: 5000 })(
+        'query',
+      )
+
+      expect(result).toEqual(['result'])
+      expect(
+        splitCallMeta(mockIpc.invoke.mock.calls[0].slice(1)),
+      ).toMatchObject({ args: ['query'], meta: { timeout: 5000 } })
+      expect(before).toHaveBeenCalledWith(
+        expect.objectContaining({ options: { timeout: 5000 } }),
+      )
+    })
+
+    it('should pass transferables to transports that support them', async () => {
+      const mockIpc = {
+        invoke: vi.fn().mockResolvedValue(['result']),
+        invokeWithTransfer: vi.fn().mockResolvedValue(['transferred']),
+      }
+      const buffer = new ArrayBuffer(8)
+
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const result = await proxy!.app.search.withOptions({
+        transfer: [buffer],
+      })('query')
+
+      expect(result).toEqual(['transferred'])
+      expect(mockIpc.invokeWithTransfer).toHaveBeenCalledWith(
+        [buffer],
+        'app.search',
+        'query',
+      )
+      expect(mockIpc.invoke).not.toHaveBeenCalled()
+    })
+
+    it('should copy transferables on transports without transfer', async () => {
+      const mockIpc = {
+        invoke: vi.fn().mockResolvedValue(['result']),
+      }
+
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      await proxy!.app.search.withOptions({ transfer: [new ArrayBuffer(8)] })(
+        'query',
+      )
+
+      expect(mockIpc.invoke).toHaveBeenCalledWith('app.search', 'query')
+    })
+
+    it('should reject with IpcTimeoutError after the default timeout', async () => {
+      vi.useFakeTimers()
+      const mockIpc = {
+        invoke: vi.fn(() => new Promise(() => {})),
+      }
+
+      const proxy = createIpcProxy<Services>(mockIpc as any, { timeout: 1000 })
+      const promise = proxy!.app.search('query')
+      const assertion = expect(promise).rejects.toBeInstanceOf(IpcTimeoutError)
+
+      await vi.advanceTimersByTimeAsync(1000)
+      await assertion
+      // The default timeout is not sent, so methods keep their own
+      expect(mockIpc.invoke).toHaveBeenCalledWith('app.search', 'query')
+    })
+
+    it('should not time out calls that settle in time', async () => {
+      vi.useFakeTimers()
+      const mockIpc = {
+        invoke: vi.fn().mockResolvedValue(['result']),
+      }
+
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const result = await proxy!.app.search.withOptions({ timeout: 1000 })(
+        'query',
+      )
+
+      expect(result).toEqual(['result'])
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it('should cancel the call in the main process when the signal aborts', async () => {
+      const mockIpc = {
+        invoke: vi.fn((..._: unknown[]) => new Promise(() => {})),
+        send: vi.fn(),
+      }
+      const controller = new AbortController()
+
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const promise = proxy!.app.search.withOptions({
+        signal: controller.signal,
+      })('query')
+      controller.abort(new Error('Cancelled'))
+
+      await expect(promise).rejects.toThrow('Cancelled')
+
+      const { args, meta } = splitCallMeta(
+        mockIpc.invoke.mock.calls[0].slice(1),
+      )
+      expect(args).toEqual(['query'])
+      expect(meta.requestId).toEqual(expect.any(String))
+      expect(mockIpc.send).toHaveBeenCalledWith(
+        IPC_CANCEL_CHANNEL,
+        meta.requestId,
+      )
+    })
+
+    it('should use a new request id for every cancellable call', async () => {
+      const mockIpc = {
+        invoke: vi.fn().mockResolvedValue([]),
+      }
+      const { signal } = new AbortController()
+
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      await proxy!.app.search.withOptions({ signal })('first')
+      await proxy!.app.search.withOptions({ signal })('second')
+
+      const [first, second] = mockIpc.invoke.mock.calls.map(
+        (call) => splitCallMeta(call.slice(1)).meta.requestId,
+      )
+      expect(first).not.toBe(second)
+    })
+
+    it('should not invoke when the signal is already aborted', async () => {
+      const mockIpc = {
+        invoke: vi.fn(),
+      }
+
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const promise = proxy!.app.search.withOptions({
+        signal: AbortSignal.abort(new Error('Cancelled')),
+      })('query')
+
+      await expect(promise).rejects.toThrow('Cancelled')
+      expect(mockIpc.invoke).not.toHaveBeenCalled()
+    })
+
+    it('should stop listening to the signal once settled', async () => {
+      const mockIpc = {
+        invoke: vi.fn().mockResolvedValue([]),
+      }
+      const controller = new AbortController()
+      const removeSpy = vi.spyOn(controller.signal, 'removeEventListener')
+
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      await proxy!.app.search.withOptions({ signal: controller.signal })(
+        'query',
+      )
+
+      expect(removeSpy).toHaveBeenCalledWith('abort', expect.any(Function))
+    })
+  })
+
+  describe('streams', () => {
+    type Services = {
+      logs: {
+        tail: () => AsyncIterable<string>
+        getVersion: () => Promise<string>
+      }
+    }
+
+    // Serve `lines` as a stream through the pull channel
+    const createStreamingIpc = (lines: unknown[]) => {
+      const chunks = [...lines]
+      return {
+        invoke: vi.fn(async (channel: string, ...args: any[]) => {
+          if (channel !== IPC_STREAM_CHANNEL) {
+            return { [IPC_STREAM_KEY]: 'stream-1' }
+          }
+          if (args[1] === 'return' || !chunks.length) {
+            return { done: true, value: undefined }
+          }
+          const chunk = chunks.shift()
+          return chunk instanceof Error
+            ? { [IPC_ERROR_KEY]: { name: 'Error', message: chunk.message } }
+            : { done: false, value: chunk }
+        }),
+        send: vi.fn(),
+      }
+    }
+
+    it('should consume streams with for await', async () => {
+      const mockIpc = createStreamingIpc(['a', 'b'])
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+
+      const lines: string[] = []
+      for await (const line of proxy!.logs.tail()) {
+        lines.push(line)
+      }
+
+      expect(lines).toEqual(['a', 'b'])
+      expect(mockIpc.invoke).toHaveBeenCalledWith(
+        IPC_STREAM_CHANNEL,
+        'stream-1',
+        'next',
+      )
+    })
+
+    it('should resolve to the stream when awaited', async () => {
+      const mockIpc = createStreamingIpc(['a'])
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+
+      const stream = await (proxy!.logs.tail() as unknown as Promise<
+        AsyncIterable<string>
+      >)
+
+      const lines: string[] = []
+      for await (const line of stream) {
+        lines.push(line)
+      }
+      expect(lines).toEqual(['a'])
+    })
+
+    it('should close the stream when the consumer breaks out', async () => {
+      const mockIpc = createStreamingIpc(['a', 'b', 'c'])
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+
+      for await (const line of proxy!.logs.tail()) {
+        expect(line).toBe('a')
+        break
+      }
+
+      expect(mockIpc.invoke).toHaveBeenLastCalledWith(
+        IPC_STREAM_CHANNEL,
+        'stream-1',
+        'return',
+      )
+    })
+
+    it('should throw errors sent while streaming', async () => {
+      const mockIpc = createStreamingIpc(['a', new Error('Stream failed')])
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+
+      const lines: string[] = []
+      await expect(async () => {
+        for await (const line of proxy!.logs.tail()) {
+          lines.push(line)
+        }
+      }).rejects.toThrow('Stream failed')
+      expect(lines).toEqual(['a'])
+    })
+
+    it('should stop pulling once the signal aborts', async () => {
+      const mockIpc = createStreamingIpc(['a', 'b'])
+      const controller = new AbortController()
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+
+      await expect(async () => {
+        for await (const _ of proxy!.logs.tail.withOptions({
+          signal: controller.signal,
+        })()) {
+          controller.abort(new Error('Cancelled'))
+        }
+      }).rejects.toThrow('Cancelled')
+      const [, ...args] = mockIpc.invoke.mock.calls[0]
+      expect(mockIpc.send).toHaveBeenCalledExactlyOnceWith(
+        IPC_CANCEL_CHANNEL,
+        splitCallMeta(args).meta.requestId,
+      )
+    })
+
+    it('should not cancel streams that have ended', async () => {
+      const mockIpc = createStreamingIpc(['a'])
+      const controller = new AbortController()
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+
+      for await (const _ of proxy!.logs.tail.withOptions({
+        signal: controller.signal,
+      })()) {
+        // Consume every chunk
+      }
+      controller.abort()
+
+      expect(mockIpc.send).not.toHaveBeenCalled()
+    })
+
+    it('should reject iterating methods that do not stream', async () => {
+      const mockIpc = {
+        invoke: vi.fn().mockResolvedValue('1.0.0'),
+      }
+      const proxy = createIpcProxy<Services>(mockIpc as any)
+      const version =
+        proxy!.logs.getVersion() as unknown as AsyncIterable<string>
+
+      await expect(async () => {
+        for await (const _ of version) {
+          // Unreachable
+        }
+      }).rejects.toThrow('logs.getVersion does not return a stream')
+    })
+  })
+
+  describe('batching', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    type Services = {
+      app: {
+        getVersion: () => Promise<string>
+        getLocale: () => Promise<string>
+        reset: () => Promise<void>
+      }
+    }
+
+    // Answers batches with the channel of each call
+    const createBatchingIpc = () => ({
+      invoke: vi.fn(async (channel: string, calls?: IpcBatchCall[]) =>
+        channel.endsWith(IPC_BATCH_CHANNEL)
+          ? calls!.map((call) =>
+              call.channel.endsWith('reset')
+                ? { [IPC_ERROR_KEY]: { message: 'Reset failed' } }
+                : `${call.channel} result`,
+            )
+          : `${channel} result`,
+      ),
+    })
+
+    it('should send the calls of a tick as one message', async () => {
+      const mockIpc = createBatchingIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any, {
+        batch: true,
+        namespace: 'editor',
+      })
+
+      const version = proxy!.app.getVersion()
+      const locale = proxy!.app.getLocale()
+      const reset = proxy!.app.reset()
+
+      await expect(version).resolves.toBe('editor.app.getVersion result')
+      await expect(locale).resolves.toBe('editor.app.getLocale result')
+      await expect(reset).rejects.toThrow('Reset failed')
+      expect(mockIpc.invoke).toHaveBeenCalledExactlyOnceWith(
+        `editor.${IPC_BATCH_CHANNEL}`,
+        [
+          { channel: 'editor.app.getVersion', args: [] },
+          { channel: 'editor.app.getLocale', args: [] },
+          { channel: 'editor.app.reset', args: [] },
+        ],
+      )
+    })
+
+    it('should send a single call on its own channel', async () => {
+      const mockIpc = createBatchingIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any, { batch: true })
+
+      await expect(proxy!.app.getVersion()).resolves.toBe(
+        'app.getVersion result',
+      )
+      expect(mockIpc.invoke).toHaveBeenCalledExactlyOnceWith('app.getVersion')
+    })
+
+    it('should send batches once they are full', async () => {
+      const mockIpc = createBatchingIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any, {
+        batch: { maxSize: 2 },
+      })
+
+      const calls = [
+        proxy!.app.getVersion(),
+        proxy!.app.getLocale(),
+        proxy!.app.getVersion(),
+      ]
+
+      expect(mockIpc.invoke).toHaveBeenCalledTimes(1)
+      await Promise.all(calls)
+      expect(mockIpc.invoke.mock.calls.map(([channel]) => channel)).toEqual([
+        IPC_BATCH_CHANNEL,
+        'app.getVersion',
+      ])
+    })
+
+    it('should wait for more calls during the window', async () => {
+      vi.useFakeTimers()
+      const mockIpc = createBatchingIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any, {
+        batch: { window: 10 },
+      })
+
+      const version = proxy!.app.getVersion()
+      await vi.advanceTimersByTimeAsync(5)
+      const locale = proxy!.app.getLocale()
+      expect(mockIpc.invoke).not.toHaveBeenCalled()
+      await vi.advanceTimersByTimeAsync(5)
+
+      await expect(version).resolves.toBe('app.getVersion result')
+      await expect(locale).resolves.toBe('app.getLocale result')
+      expect(mockIpc.invoke).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject every call of a failed batch', async () => {
+      const mockIpc = {
+        invoke: vi.fn().mockRejectedValue(new Error('No handler registered')),
+      }
+      const proxy = createIpcProxy<Services>(mockIpc as any, { batch: true })
+
+      const version = proxy!.app.getVersion()
+      const locale = proxy!.app.getLocale()
+
+      await expect(version).rejects.toThrow('No handler registered')
+      await expect(locale).rejects.toThrow('No handler registered')
+    })
+  })
+
+  describe('shared results', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    type Services = {
+      app: {
+        getVersion: () => Promise<string>
+        getLocale: (window: number) => Promise<string>
+        getSize: (value: unknown) => Promise<string>
+        save: () => Promise<void>
+      }
+    }
+
+    const manifest = [
+      {
+        groupName: 'app',
+        methods: [
+          { name: 'save', channel: 'app.save', restricted: false },
+          {
+            name: 'getLocale',
+            channel: 'app.getLocale',
+            idempotent: true,
+            restricted: false,
+          },
+          {
+            name: 'getSize',
+            channel: 'app.getSize',
+            idempotent: true,
+            restricted: false,
+          },
+          {
+            name: 'getVersion',
+            channel: 'app.getVersion',
+            cache: { ttl: 1000 },
+            restricted: false,
+          },
+        ],
+        events: [],
+      },
+    ]
+
+    // Answers each call with a new result, and keeps the cache listener
+    const createCountingIpc = () => {
+      let count = 0
+      const listeners = new Map<string, (...args: any[]) => void>()
+      return {
+        invoke: vi.fn(async (channel: string) => `${channel} ${++count}`),
+        on: vi.fn((channel: string, listener: (...args: any[]) => void) => {
+          listeners.set(channel, listener)
+        }),
+        emit: (channel: string, payload: unknown) =>
+          listeners.get(channel)!({}, payload),
+      }
+    }
+
+    it('should share identical calls in flight', async () => {
+      const mockIpc = createCountingIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any, { manifest })
+
+      const results = await Promise.all([
+        proxy!.app.getLocale(1),
+        proxy!.app.getLocale(1),
+        proxy!.app.getLocale(2),
+      ])
+
+      expect(results).toEqual([
+        'app.getLocale 1',
+        'app.getLocale 1',
+        'app.getLocale 2',
+      ])
+      await expect(proxy!.app.getLocale(1)).resolves.toBe('app.getLocale 3')
+    })
+
+    it('should share calls by the value of their arguments', async () => {
+      const mockIpc = createCountingIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any, { manifest })
+      const getSizes = (...values: unknown[]) =>
+        Promise.all(values.map((value) => proxy!.app.getSize(value)))
+
+      const results = await getSizes(
+        new Map([[1, 1]]),
+        new Map([[1, 1]]),
+        new Map([
+          [10, 1],
+          [20, 2],
+        ]),
+        new Set([1n]),
+        new Set([2n]),
+        { at: new Date(0) },
+        { at: new Date(1) },
+        [0, 'a'],
+        [-0, 'a'],
+        [NaN, undefined, null, true],
+      )
+
+      expect(results).toEqual([
+        'app.getSize 1',
+        'app.getSize 1',
+        'app.getSize 2',
+        'app.getSize 3',
+        'app.getSize 4',
+        'app.getSize 5',
+        'app.getSize 6',
+        'app.getSize 7',
+        'app.getSize 8',
+        'app.getSize 9',
+      ])
+    })
+
+    it('should not share calls whose arguments cannot be keyed', async () => {
+      const mockIpc = createCountingIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any, { manifest })
+      const cyclic: Record<string, unknown> = {}
+      cyclic.self = cyclic
+
+      const results = await Promise.all(
+        [
+          new Uint8Array([1]),
+          new Uint8Array([1]),
+          cyclic,
+          cyclic,
+          Symbol('value'),
+          Symbol('value'),
+        ].map((value) => proxy!.app.getSize(value)),
+      )
+
+      expect(new Set(results).size).toBe(6)
+    })
+
+    it('should keep cached results for their ttl', async () => {
+      vi.useFakeTimers()
+      const mockIpc = createCountingIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any, { manifest })
+
+      await expect(proxy!.app.getVersion()).resolves.toBe('app.getVersion 1')
+      vi.advanceTimersByTime(999)
+      await expect(proxy!.app.getVersion()).resolves.toBe('app.getVersion 1')
+      vi.advanceTimersByTime(1)
+      await expect(proxy!.app.getVersion()).resolves.toBe('app.getVersion 2')
+      expect(mockIpc.invoke).toHaveBeenCalledTimes(2)
+    })
+
+    it('should drop cached results when the main process invalidates them', async () => {
+      const mockIpc = createCountingIpc()
+      const proxy = createIpcProxy<Services>(mockIpc as any, {
+        manifest,
+        namespace: 'editor',
+      })
+      const cacheChannel = `editor.${IPC_CACHE_CHANNEL}`
+
+      await proxy!.app.getVersion()
+      mockIpc.emit(cacheChannel, ['editor.app.getLocale'])
+      await expect(proxy!.app.getVersion()).resolves.toBe(
+        'editor.app.getVersion 1',
+      )
+      mockIpc.emit(cacheChannel, ['editor.app.getVersion'])
+      await expect(proxy!.app.getVersion()).resolves.toBe(
+        'editor.app.getVersion 2',
+      )
+      mockIpc.emit(cacheChannel, undefined)
+      await expect(proxy!.app.getVersion()).resolves.toBe(
+        'editor.app.getVersion 3',
+      )
+    })
+
+    it('should not share failed, cancellable or unmarked calls', async () => {
+      const mockIpc = createCountingIpc()
+      mockIpc.invoke.mockRejectedValueOnce(new Error('Not ready'))
+      const proxy = createIpcProxy<Services>(mockIpc as any, { manifest })
+
+      await expect(proxy!.app.getVersion()).rejects.toThrow('Not ready')
+      await expect(proxy!.app.getVersion()).resolves.toBe('app.getVersion 1')
+      await expect(
+        proxy!.app.getVersion.withOptions({
+          signal: new AbortController().signal,
+        })(),
+      ).resolves.toBe('app.getVersion 2')
+      await proxy!.app.save()
+      await proxy!.app.save()
+      expect(mockIpc.invoke).toHaveBeenCalledTimes(5)
+    })
+
+    it('should not listen for invalidations without shared methods', () => {
+      const mockIpc = createCountingIpc()
+
+      createIpcProxy<Services>(mockIpc as any, { manifest: [] })
+
+      expect(mockIpc.on).not.toHaveBeenCalled()
+    })
+  })
 })
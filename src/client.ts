@@ -1,22 +1,509 @@
-import type { IpcRenderer } from 'electron'
+import {
+  deserializeError,
+  IpcTimeoutError,
+  type IpcErrorClasses,
+} from './errors'
+import {
+  appendCallMeta,
+  IPC_BATCH_CHANNEL,
+  IPC_CACHE_CHANNEL,
+  IPC_CANCEL_CHANNEL,
+  IPC_ERROR_KEY,
+  IPC_STREAM_CHANNEL,
+  IPC_STREAM_KEY,
+  isIpcErrorEnvelope,
+  isIpcStreamEnvelope,
+  type IpcBatchCall,
+  type IpcStreamAction,
+} from './protocol'
+import type { IpcServiceDescription } from './manifest'
+import type { IpcTransport } from './port'
+import { passthroughSerializer, type IpcSerializer } from './serializer'
+
+export {
+  IpcError,
+  IpcForbiddenError,
+  IpcTimeoutError,
+  IpcValidationError,
+} from './errors'
+export type { IpcErrorClass, IpcErrorClasses } from './errors'
+export { createPortTransport, createProcessTransport } from './port'
+export { createSerializer, defineCodec } from './serializer'
+export type {
+  IpcCodec,
+  IpcCodecTypes,
+  IpcSerializer,
+  IpcSerializerOptions,
+} from './serializer'
+export type { IpcMethodDescription, IpcServiceDescription } from './manifest'
+export type { IpcBridge } from './preload'
+export type {
+  IpcChildProcess,
+  IpcPort,
+  IpcPortTransport,
+  IpcTransport,
+} from './port'
+
+// Options applied to a single call
+export interface IpcCallOptions {
+  // Reject with IpcTimeoutError when the call takes longer (in ms). Also
+  // limits the method in the main process, within the method's own timeout
+  timeout?: number
+  // Reject with the abort reason and cancel the call in the main process
+  signal?: AbortSignal
+  // Objects transferred instead of copied, on transports that support it
+  transfer?: Transferable[]
+}
+
+// A call made through the proxy, as seen by interceptors
+export interface IpcCall {
+  channel: string
+  // Arguments sent to the main process, replace them in `before` to transform
+  args: any[]
+  options: IpcCallOptions
+}
+
+// Hooks running around every call made through the proxy
+export interface IpcClientInterceptor {
+  before?: (call: IpcCall) => void | Promise<void>
+  after?: (call: IpcCall, result: unknown) => void | Promise<void>
+  error?: (call: IpcCall, error: unknown) => void | Promise<void>
+}
+
+export interface IpcProxyOptions {
+  // Custom error classes rehydrated from errors thrown in the main process
+  errors?: IpcErrorClasses
+  // Interceptors running in order around every call
+  interceptors?: IpcClientInterceptor[]
+  // Default timeout for every call (in ms), only enforced by the proxy
+  timeout?: number
+  // Prefix of the IpcHandler serving the services
+  namespace?: string
+  // Same serializer as the IpcHandler serving the services
+  serializer?: IpcSerializer
+  // Send the calls made in the same tick as one message
+  batch?: boolean | IpcBatchOptions
+  // Description of the services, from `__meta.describe`, whose idempotent
+  // and cached methods share their results
+  manifest?: IpcServiceDescription[]
+}
+
+export interface IpcBatchOptions {
+  // Wait for more calls this long (in ms) instead of until the end of the tick
+  window?: number
+  // Send the batch as soon as it holds this many calls
+  maxSize?: number
+}
+
+// Proxy method with per-call options
+export type IpcClientMethod<TMethod> = TMethod & {
+  withOptions: (options: IpcCallOptions) => TMethod
+}
+
+// Client proxy shape for merged IPC services
+export type IpcClient<IpcServices> = {
+  [G in keyof IpcServices]: {
+    [M in keyof IpcServices[G]]: M extends 'on' | 'once' | 'off'
+      ? IpcServices[G][M]
+      : IpcServices[G][M] extends (...args: any[]) => any
+      ? IpcClientMethod<IpcServices[G][M]>
+      : IpcServices[G][M]
+  }
+}
+
+// Let streaming calls be consumed with `for await` without awaiting them first
+function toStreamable(channel: string, promise: Promise<unknown>) {
+  return Object.assign(promise, {
+    async *[Symbol.asyncIterator]() {
+      const result: any = await promise
+      if (typeof result?.[Symbol.asyncIterator] !== 'function') {
+        throw new TypeError(`${channel} does not return a stream`)
+      }
+      yield* result as AsyncIterable<unknown>
+    },
+  })
+}
+
+// Key identifying the arguments of a call sharing its result, covering the
+// types structured clone copies by value. Undefined when the arguments cannot
+// be keyed without loss, e.g. binary data, class instances or cycles
+function getArgsKey(
+  value: unknown,
+  ancestors: object[] = [],
+): string | undefined {
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value)
+    case 'number':
+      return Object.is(value, -0) ? '-0' : `${value}`
+    case 'bigint':
+      return `${value}n`
+    case 'boolean':
+    case 'undefined':
+      return `${value}`
+    case 'object':
+      break
+    default:
+      return undefined
+  }
+  if (value === null) {
+    return 'null'
+  }
+  if (value instanceof Date) {
+    return `Date(${value.getTime()})`
+  }
+  if (ancestors.includes(value)) {
+    return undefined
+  }
+
+  const join = (tag: string, values: unknown[]) => {
+    const keys = values.map((item) => getArgsKey(item, [...ancestors, value]))
+    return keys.includes(undefined) ? undefined : `${tag}{${keys.join(',')}}`
+  }
+  if (Array.isArray(value)) {
+    return join('Array', value)
+  }
+  if (value instanceof Map) {
+    return join('Map', [...value].flat())
+  }
+  if (value instanceof Set) {
+    return join('Set', [...value])
+  }
+  const prototype = Object.getPrototypeOf(value)
+  if (prototype === Object.prototype || prototype === null) {
+    return join('Object', Object.entries(value).flat())
+  }
+  return undefined
+}
+
+type Listener = (payload: any) => void
+type IpcListener = (event: unknown, payload: unknown) => void
+
+const subscriptionMethods = new Set(['on', 'once', 'off'])
+
+// Prefix keeping request ids unique across proxies in the same renderer
+const requestIdPrefix = Math.random().toString(36).slice(2)
+let requestCounter = 0
 
 export function createIpcProxy<IpcServices extends Record<string, any>>(
-  ipc: IpcRenderer | null,
-): IpcServices | null {
+  ipc: IpcTransport | null,
+  options: IpcProxyOptions = {},
+): IpcClient<IpcServices> | null {
   if (!ipc) {
     return null
   }
 
-  return new Proxy({} as IpcServices, {
+  const { interceptors = [], serializer = passthroughSerializer } = options
+  const prefix = options.namespace ? `${options.namespace}.` : ''
+
+  // Functions removing the wrapped ipcRenderer listeners, keyed by channel
+  // and original listener
+  const subscriptions = new Map<string, Map<Listener, () => void>>()
+
+  const unsubscribe = (channel: string, listener: Listener) => {
+    const channelListeners = subscriptions.get(channel)
+    const remove = channelListeners?.get(listener)
+    if (!remove) {
+      return
+    }
+
+    channelListeners!.delete(listener)
+    remove()
+  }
+
+  const subscribe = (channel: string, listener: Listener, once: boolean) => {
+    if (!subscriptions.has(channel)) {
+      subscriptions.set(channel, new Map())
+    }
+
+    const channelListeners = subscriptions.get(channel)!
+    if (!channelListeners.has(listener)) {
+      const wrapped: IpcListener = (_event, payload) => {
+        if (once) {
+          unsubscribe(channel, listener)
+        }
+        listener(serializer.deserialize(payload))
+      }
+      const off = ipc.on(channel, wrapped)
+      channelListeners.set(
+        listener,
+        typeof off === 'function'
+          ? (off as () => void)
+          : () => ipc.removeListener?.(channel, wrapped),
+      )
+    }
+
+    return () => unsubscribe(channel, listener)
+  }
+
+  // Calls waiting for the batch to be sent
+  let batch: {
+    call: IpcBatchCall
+    resolve: (result: unknown) => void
+    reject: (error: unknown) => void
+  }[] = []
+  let batchTimer: ReturnType<typeof setTimeout> | undefined
+  const { window: batchWindow, maxSize = Infinity } =
+    typeof options.batch === 'object' ? options.batch : {}
+
+  const flushBatch = () => {
+    clearTimeout(batchTimer)
+    const calls = batch
+    batch = []
+    if (calls.length === 0) {
+      return
+    }
+
+    const [first] = calls
+    const request =
+      calls.length === 1
+        ? ipc
+            .invoke(first.call.channel, ...first.call.args)
+            .then((result) => [result])
+        : ipc.invoke(
+            `${prefix}${IPC_BATCH_CHANNEL}`,
+            calls.map(({ call }) => call),
+          )
+    // Each call is answered on its own, a failed batch fails all of them
+    request.then(
+      (results: unknown[]) =>
+        calls.forEach(({ resolve }, index) => resolve(results[index])),
+      (error) => calls.forEach(({ reject }) => reject(error)),
+    )
+  }
+
+  const enqueue = (channel: string, args: unknown[]) =>
+    new Promise((resolve, reject) => {
+      batch.push({ call: { channel, args }, resolve, reject })
+      if (batch.length >= maxSize) {
+        flushBatch()
+      } else if (batch.length === 1) {
+        if (batchWindow === undefined) {
+          queueMicrotask(flushBatch)
+        } else {
+          batchTimer = setTimeout(flushBatch, batchWindow)
+        }
+      }
+    })
+
+  const unwrap = (result: unknown) => {
+    if (isIpcErrorEnvelope(result)) {
+      throw deserializeError(result[IPC_ERROR_KEY], options.errors)
+    }
+    return result
+  }
+
+  // Pull chunks one at a time, so the main process never runs ahead of the consumer.
+  // `close` is called once the stream has ended in the main process
+  const openStream = (
+    streamId: string,
+    { signal }: IpcCallOptions,
+    close: () => void,
+  ): AsyncIterableIterator<unknown> => {
+    const pull = async (action: IpcStreamAction) => {
+      try {
+        const result = unwrap(
+          await ipc.invoke(`${prefix}${IPC_STREAM_CHANNEL}`, streamId, action),
+        ) as IteratorResult<unknown>
+        if (result.done) {
+          close()
+        }
+        return { ...result, value: serializer.deserialize(result.value) }
+      } catch (error) {
+        close()
+        throw error
+      }
+    }
+
+    return {
+      next: async () => {
+        signal?.throwIfAborted()
+        return pull('next')
+      },
+      // Called when the consumer breaks out of `for await`
+      return: async (value?: unknown) => {
+        await pull('return')
+        return { done: true, value }
+      },
+      [Symbol.asyncIterator]() {
+        return this
+      },
+    }
+  }
+
+  const invoke = (call: IpcCall) => {
+    const { channel, args } = call
+    const { signal, transfer } = call.options
+    const timeout = call.options.timeout ?? options.timeout
+
+    signal?.throwIfAborted()
+
+    // Calls that can be cancelled carry a request id for the main process
+    const requestId = signal && `${requestIdPrefix}:${++requestCounter}`
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+      }
+      const fail = (error: unknown) => {
+        cleanup()
+        reject(error)
+      }
+
+      const timer = timeout
+        ? setTimeout(() => fail(new IpcTimeoutError(channel, timeout)), timeout)
+        : undefined
+      const onAbort = () => {
+        ipc.send(IPC_CANCEL_CHANNEL, requestId)
+        fail(signal!.reason)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      // The main process enforces the timeout of the call as well, so handlers
+      // can see their deadline. The default timeout is left to the method
+      const serializedArgs = serializer.serialize(args) as unknown[]
+      const invokeArgs =
+        requestId || call.options.timeout
+          ? appendCallMeta(serializedArgs, {
+              requestId,
+              timeout: call.options.timeout,
+            })
+          : serializedArgs
+      const request =
+        transfer && ipc.invokeWithTransfer
+          ? ipc.invokeWithTransfer(transfer, channel, ...invokeArgs)
+          : options.batch
+          ? enqueue(channel, invokeArgs)
+          : ipc.invoke(channel, ...invokeArgs)
+      request.then((result) => {
+        try {
+          const value = unwrap(result)
+          if (!isIpcStreamEnvelope(value)) {
+            cleanup()
+            resolve(serializer.deserialize(value))
+            return
+          }
+          // Aborting the signal cancels the stream until it ends
+          clearTimeout(timer)
+          resolve(openStream(value[IPC_STREAM_KEY], call.options, cleanup))
+        } catch (error) {
+          fail(error)
+        }
+      }, fail)
+    })
+  }
+
+  // Methods sharing their results, keyed by channel
+  const sharedMethods = new Map(
+    (options.manifest ?? []).flatMap(({ methods }) =>
+      methods
+        .filter(({ idempotent, cache }) => idempotent || cache)
+        .map((method) => [`${prefix}${method.channel}`, method] as const),
+    ),
+  )
+  // Results in flight or cached, keyed by channel and arguments
+  const sharedResults = new Map<
+    string,
+    Map<string, { promise: Promise<unknown>; expires: number }>
+  >()
+
+  if (sharedMethods.size > 0) {
+    ipc.on(`${prefix}${IPC_CACHE_CHANNEL}`, (_event, channels?: string[]) => {
+      if (!channels) {
+        sharedResults.clear()
+        return
+      }
+      for (const channel of channels) {
+        sharedResults.delete(channel)
+      }
+    })
+  }
+
+  const invokeShared = (call: IpcCall) => {
+    const method = sharedMethods.get(call.channel)
+    // Calls that can be cancelled, transfer objects or whose arguments cannot
+    // be keyed are never shared
+    const key =
+      method && !call.options.signal && !call.options.transfer
+        ? getArgsKey(serializer.serialize(call.args))
+        : undefined
+    if (!method || key === undefined) {
+      return invoke(call)
+    }
+
+    if (!sharedResults.has(call.channel)) {
+      sharedResults.set(call.channel, new Map())
+    }
+    const results = sharedResults.get(call.channel)!
+    const shared = results.get(key)
+    if (shared && shared.expires > Date.now()) {
+      return shared.promise
+    }
+
+    // Shared until settled, cached results until their ttl is over
+    const result = { promise: invoke(call), expires: Infinity }
+    const release = () => results.delete(key)
+    results.set(key, result)
+    result.promise.then(() => {
+      if (method.cache) {
+        result.expires = Date.now() + method.cache.ttl
+      } else {
+        release()
+      }
+    }, release)
+    return result.promise
+  }
+
+  const callMethod = async (
+    channel: string,
+    args: any[],
+    callOptions: IpcCallOptions,
+  ) => {
+    const call: IpcCall = { channel, args, options: { ...callOptions } }
+
+    try {
+      for (const interceptor of interceptors) {
+        await interceptor.before?.(call)
+      }
+
+      const result = await invokeShared(call)
+
+      for (const interceptor of interceptors) {
+        await interceptor.after?.(call, result)
+      }
+      return result
+    } catch (error) {
+      for (const interceptor of interceptors) {
+        await interceptor.error?.(call, error)
+      }
+      throw error
+    }
+  }
+
+  return new Proxy({} as IpcClient<IpcServices>, {
     get(target, groupName: string) {
       return new Proxy(
         {},
         {
           get(_, methodName: string) {
-            return (...args: any[]) => {
-              const channel = `${groupName}.${methodName}`
-              return ipc.invoke(channel, ...args)
+            if (subscriptionMethods.has(methodName)) {
+              return (event: string, listener: Listener) => {
+                const channel = `${prefix}${groupName}.${event}`
+                return methodName === 'off'
+                  ? unsubscribe(channel, listener)
+                  : subscribe(channel, listener, methodName === 'once')
+              }
             }
+
+            const channel = `${prefix}${groupName}.${methodName}`
+            const method = (...args: any[]) =>
+              toStreamable(channel, callMethod(channel, args, {}))
+            method.withOptions =
+              (callOptions: IpcCallOptions) =>
+              (...args: any[]) =>
+                toStreamable(channel, callMethod(channel, args, callOptions))
+            return method
           },
         },
       )
@@ -0,0 +1,20 @@
+import { createRequire } from 'node:module'
+
+// APIs of the main process, missing elsewhere, e.g. in utility processes
+export type ElectronMain = Partial<typeof import('electron')>
+
+let electron: ElectronMain | undefined
+
+// Load electron on first use. Outside Electron, e.g. in tests using the
+// testing entry, the electron package only exports the path of its binary,
+// and throws when the binary is not installed
+export function getElectron(): ElectronMain {
+  if (!electron) {
+    try {
+      electron = createRequire(import.meta.url)('electron') as ElectronMain
+    } catch {
+      electron = {}
+    }
+  }
+  return electron
+}
@@ -0,0 +1,264 @@
+import { describe, expect, it } from 'vitest'
+import {
+  deserializeError,
+  IpcError,
+  IpcForbiddenError,
+  IpcTimeoutError,
+  IpcValidationError,
+  serializeError,
+  validateSchema,
+} from './errors'
+import type { StandardSchemaV1 } from './standard-schema'
+
+const createSchema = <T>(
+  validate: (value: unknown) => StandardSchemaV1.Result<T>,
+): StandardSchemaV1<T> => ({
+  '~standard': { version: 1, vendor: 'test', validate },
+})
+
+describe('IpcError', () => {
+  it('should default the code', () => {
+    const error = new IpcError('Something failed')
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('IpcError')
+    expect(error.message).toBe('Something failed')
+    expect(error.code).toBe('IPC_ERROR')
+    expect(error.data).toBeUndefined()
+  })
+
+  it('should keep code, data and cause', () => {
+    const cause = new Error('Root cause')
+    const error = new IpcError('Something failed', {
+      code: 'CUSTOM',
+      data: { id: 1 },
+      cause,
+    })
+
+    expect(error.code).toBe('CUSTOM')
+    expect(error.data).toEqual({ id: 1 })
+    expect(error.cause).toBe(cause)
+  })
+})
+
+describe('IpcValidationError', () => {
+  it('should describe issues with their paths', () => {
+    const error = new IpcValidationError('input', [
+      { message: 'Expected string', path: ['user', 'name'] },
+      { message: 'Required', path: [] },
+    ])
+
+    expect(error).toBeInstanceOf(IpcError)
+    expect(error.name).toBe('IpcValidationError')
+    expect(error.code).toBe('VALIDATION_ERROR')
+    expect(error.target).toBe('input')
+    expect(error.message).toBe(
+      'Invalid input: user.name: Expected string; Required',
+    )
+    expect(error.data).toEqual({ target: 'input', issues: error.issues })
+  })
+})
+
+describe('IpcForbiddenError', () => {
+  it('should name the channel', () => {
+    const error = new IpcForbiddenError('app.test')
+
+    expect(error).toBeInstanceOf(IpcError)
+    expect(error.name).toBe('IpcForbiddenError')
+    expect(error.code).toBe('FORBIDDEN')
+    expect(error.data).toEqual({ channel: 'app.test' })
+  })
+})
+
+describe('IpcTimeoutError', () => {
+  it('should name the channel and timeout', () => {
+    const error = new IpcTimeoutError('app.test', 1000)
+
+    expect(error).toBeInstanceOf(IpcError)
+    expect(error.name).toBe('IpcTimeoutError')
+    expect(error.code).toBe('TIMEOUT')
+    expect(error.message).toBe('app.test timed out after 1000ms')
+    expect(error.channel).toBe('app.test')
+    expect(error.timeout).toBe(1000)
+  })
+})
+
+describe('validateSchema', () => {
+  it('should return the parsed value', async () => {
+    const schema = createSchema((value) => ({ value: Number(value) }))
+
+    await expect(validateSchema(schema, '42', 'input')).resolves.toBe(42)
+  })
+
+  it('should support async validators', async () => {
+    const schema: StandardSchemaV1<string> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: async (value) => ({ value: String(value) }),
+      },
+    }
+
+    await expect(validateSchema(schema, 1, 'output')).resolves.toBe('1')
+  })
+
+  it('should throw a validation error with normalized paths', async () => {
+    const schema = createSchema(() => ({
+      issues: [
+        { message: 'Too short', path: [{ key: 'name' }, 0] },
+        { message: 'Invalid' },
+      ],
+    }))
+
+    const error = (await validateSchema(schema, {}, 'output').catch(
+      (e) => e,
+    )) as IpcValidationError
+
+    expect(error).toBeInstanceOf(IpcValidationError)
+    expect(error.target).toBe('output')
+    expect(error.issues).toEqual([
+      { message: 'Too short', path: ['name', 0] },
+      { message: 'Invalid', path: [] },
+    ])
+  })
+})
+
+describe('serializeError', () => {
+  it('should serialize name, message, code and data', () => {
+    const error = new IpcError('Not found', {
+      code: 'NOT_FOUND',
+      data: { id: 1 },
+    })
+
+    expect(serializeError(error)).toEqual({
+      name: 'IpcError',
+      message: 'Not found',
+      code: 'NOT_FOUND',
+      data: { id: 1 },
+    })
+  })
+
+  it('should keep string codes from other errors', () => {
+    const error = Object.assign(new Error('No such file'), { code: 'ENOENT' })
+    const numeric = Object.assign(new Error('Failed'), { code: 42 })
+
+    expect(serializeError(error)).toEqual({
+      name: 'Error',
+      message: 'No such file',
+      code: 'ENOENT',
+    })
+    expect(serializeError(numeric)).toEqual({
+      name: 'Error',
+      message: 'Failed',
+    })
+  })
+
+  it('should include the stack only when requested', () => {
+    const error = new Error('Failed')
+    const withoutStack = Object.assign(new Error('Failed'), {
+      stack: undefined,
+    })
+
+    expect(serializeError(error, { stack: true }).stack).toBe(error.stack)
+    expect(serializeError(error).stack).toBeUndefined()
+    expect(serializeError(withoutStack, { stack: true })).not.toHaveProperty(
+      'stack',
+    )
+  })
+
+  it('should serialize cause chains up to a maximum depth', () => {
+    let error: unknown = 'root'
+    for (let i = 0; i < 10; i++) {
+      error = new Error(`level ${i}`, { cause: error })
+    }
+
+    let serialized = serializeError(error)
+    let depth = 0
+    while (serialized.cause) {
+      serialized = serialized.cause
+      depth++
+    }
+
+    expect(depth).toBe(5)
+    expect(serialized.message).toBe('level 4')
+  })
+
+  it('should serialize thrown non-error values', () => {
+    expect(serializeError('boom')).toEqual({ name: 'Error', message: 'boom' })
+  })
+})
+
+describe('deserializeError', () => {
+  class NotFoundError extends Error {
+    constructor(readonly id: number) {
+      super(`Item ${id} not found`)
+      this.name = 'NotFoundError'
+    }
+  }
+
+  it('should rehydrate unknown errors as IpcError', () => {
+    const error = deserializeError({
+      name: 'TypeError',
+      message: 'Bad type',
+      code: 'BAD_TYPE',
+      data: { field: 'name' },
+      stack: 'TypeError: Bad type',
+    })
+
+    expect(error).toBeInstanceOf(IpcError)
+    expect(error).toMatchObject({
+      name: 'TypeError',
+      message: 'Bad type',
+      code: 'BAD_TYPE',
+      data: { field: 'name' },
+      stack: 'TypeError: Bad type',
+    })
+  })
+
+  it('should default the code of unknown errors', () => {
+    const error = deserializeError({ name: 'Error', message: 'Failed' })
+
+    expect(error).toBeInstanceOf(IpcError)
+    expect((error as IpcError).code).toBe('IPC_ERROR')
+  })
+
+  it('should rehydrate built-in error classes', () => {
+    const original = new IpcValidationError('input', [
+      { message: 'Required', path: ['name'] },
+    ])
+
+    const error = deserializeError(serializeError(original))
+
+    expect(error).toBeInstanceOf(IpcValidationError)
+    expect((error as IpcValidationError).issues).toEqual(original.issues)
+    expect((error as IpcValidationError).target).toBe('input')
+    expect(
+      deserializeError(serializeError(new IpcForbiddenError('app.test'))),
+    ).toMatchObject({ channel: 'app.test' })
+  })
+
+  it('should rehydrate registered error classes', () => {
+    const serialized = serializeError(new NotFoundError(1))
+
+    const fromArray = deserializeError(serialized, [NotFoundError])
+    const fromRecord = deserializeError(serialized, {
+      NotFoundError,
+    })
+
+    expect(fromArray).toBeInstanceOf(NotFoundError)
+    expect(fromArray.message).toBe('Item 1 not found')
+    expect(fromArray).not.toHaveProperty('code')
+    expect(fromRecord).toBeInstanceOf(NotFoundError)
+  })
+
+  it('should rehydrate cause chains', () => {
+    const serialized = serializeError(
+      new IpcError('Outer', { cause: new NotFoundError(1) }),
+    )
+
+    const error = deserializeError(serialized, [NotFoundError])
+
+    expect(error).toBeInstanceOf(IpcError)
+    expect(error.cause).toBeInstanceOf(NotFoundError)
+  })
+})
@@ -0,0 +1,202 @@
+import type { SerializedIpcError } from './protocol'
+import type { StandardSchemaV1 } from './standard-schema'
+
+export interface IpcErrorOptions {
+  code?: string
+  data?: unknown
+  cause?: unknown
+}
+
+// Base error for failures raised by the IPC layer
+export class IpcError extends Error {
+  code: string
+  data?: unknown
+
+  constructor(message: string, options: IpcErrorOptions = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'IpcError'
+    this.code = options.code ?? 'IPC_ERROR'
+    this.data = options.data
+  }
+}
+
+export interface IpcValidationIssue {
+  message: string
+  path: PropertyKey[]
+}
+
+// Thrown when a method input or output does not match its schema
+export class IpcValidationError extends IpcError {
+  declare data: { target: 'input' | 'output'; issues: IpcValidationIssue[] }
+
+  constructor(target: 'input' | 'output', issues: IpcValidationIssue[]) {
+    super(
+      `Invalid ${target}: ${issues
+        .map(({ message, path }) =>
+          path.length ? `${path.map(String).join('.')}: ${message}` : message,
+        )
+        .join('; ')}`,
+      { code: 'VALIDATION_ERROR', data: { target, issues } },
+    )
+    this.name = 'IpcValidationError'
+  }
+
+  // Read from data so the fields survive serialization
+  get target() {
+    return this.data.target
+  }
+
+  get issues() {
+    return this.data.issues
+  }
+}
+
+// Thrown when the sender is not allowed to call a method
+export class IpcForbiddenError extends IpcError {
+  declare data: { channel: string }
+
+  constructor(channel: string) {
+    super(`Sender is not allowed to call ${channel}`, {
+      code: 'FORBIDDEN',
+      data: { channel },
+    })
+    this.name = 'IpcForbiddenError'
+  }
+
+  get channel() {
+    return this.data.channel
+  }
+}
+
+// Thrown when a call does not complete within its timeout
+export class IpcTimeoutError extends IpcError {
+  declare data: { channel: string; timeout: number }
+
+  constructor(channel: string, timeout: number) {
+    super(`${channel} timed out after ${timeout}ms`, {
+      code: 'TIMEOUT',
+      data: { channel, timeout },
+    })
+    this.name = 'IpcTimeoutError'
+  }
+
+  get channel() {
+    return this.data.channel
+  }
+
+  get timeout() {
+    return this.data.timeout
+  }
+}
+
+// Run a Standard Schema and return the parsed value or throw IpcValidationError
+export async function validateSchema<TSchema extends StandardSchemaV1>(
+  schema: TSchema,
+  value: unknown,
+  target: 'input' | 'output',
+): Promise<StandardSchemaV1.InferOutput<TSchema>> {
+  const result = await schema['~standard'].validate(value)
+
+  if (result.issues) {
+    throw new IpcValidationError(
+      target,
+      result.issues.map(({ message, path = [] }) => ({
+        message,
+        path: path.map((segment) =>
+          typeof segment === 'object' ? segment.key : segment,
+        ),
+      })),
+    )
+  }
+
+  return result.value
+}
+
+// Error classes the client can rehydrate, keyed by error name
+export type IpcErrorClass = abstract new (...args: any[]) => Error
+
+export type IpcErrorClasses = IpcErrorClass[] | Record<string, IpcErrorClass>
+
+const builtinErrorClasses: Record<string, IpcErrorClass> = {
+  IpcError,
+  IpcValidationError,
+  IpcForbiddenError,
+  IpcTimeoutError,
+}
+
+// Maximum depth of serialized cause chains
+const MAX_CAUSE_DEPTH = 5
+
+// Convert a thrown value into a structured-clone friendly object
+export function serializeError(
+  error: unknown,
+  options: { stack?: boolean } = {},
+  depth = 0,
+): SerializedIpcError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) }
+  }
+
+  const { code, data, cause } = error as Error & {
+    code?: unknown
+    data?: unknown
+  }
+  const serialized: SerializedIpcError = {
+    name: error.name,
+    message: error.message,
+  }
+
+  if (typeof code === 'string') {
+    serialized.code = code
+  }
+  if (data !== undefined) {
+    serialized.data = data
+  }
+  if (options.stack && error.stack) {
+    serialized.stack = error.stack
+  }
+  if (cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+    serialized.cause = serializeError(cause, options, depth + 1)
+  }
+
+  return serialized
+}
+
+// Rebuild an error, using a registered class when its name matches
+export function deserializeError(
+  serialized: SerializedIpcError,
+  errorClasses: IpcErrorClasses = [],
+): Error {
+  const classes: Record<string, IpcErrorClass> = {
+    ...builtinErrorClasses,
+    ...(Array.isArray(errorClasses)
+      ? Object.fromEntries(
+          errorClasses.map((ErrorClass) => [ErrorClass.name, ErrorClass]),
+        )
+      : errorClasses),
+  }
+  const ErrorClass = classes[serialized.name]
+
+  // Bypass the constructor since custom error classes may take any arguments
+  const error: Error & { code?: string; data?: unknown } = ErrorClass
+    ? Object.create(ErrorClass.prototype)
+    : new IpcError(serialized.message)
+
+  error.name = serialized.name
+  error.message = serialized.message
+
+  if (serialized.code !== undefined) {
+    error.code = serialized.code
+  }
+  if (serialized.data !== undefined) {
+    error.data = serialized.data
+  }
+  if (serialized.stack) {
+    error.stack = serialized.stack
+  }
+  if (serialized.cause) {
+    error.cause = deserializeError(serialized.cause, classes)
+  }
+
+  return error
+}
@@ -0,0 +1,578 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import ts from 'typescript'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { generateIpcSurface, type GenerateResult } from './generate'
+
+const base = fileURLToPath(new URL('./base', import.meta.url))
+const utility = fileURLToPath(new URL('./utility', import.meta.url))
+const serializer = fileURLToPath(new URL('./serializer', import.meta.url))
+const standardSchema = fileURLToPath(
+  new URL('./standard-schema', import.meta.url),
+)
+const directories: string[] = []
+
+// Write a project with the given files and return its tsconfig path
+const createProject = (
+  files: Record<string, string>,
+  compilerOptions: Record<string, unknown> = {},
+) => {
+  const directory = mkdtempSync(join(tmpdir(), 'ipc-generate-'))
+  directories.push(directory)
+
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(directory, name), content)
+  }
+  const project = join(directory, 'tsconfig.json')
+  writeFileSync(
+    project,
+    JSON.stringify({
+      compilerOptions: {
+        target: 'ES2022',
+        module: 'ESNext',
+        moduleResolution: 'bundler',
+        strict: true,
+        experimentalDecorators: true,
+        ...compilerOptions,
+      },
+      files: Object.keys(files),
+    }),
+  )
+  return project
+}
+
+// Type errors of a project written by createProject
+const getDiagnostics = (project: string) => {
+  const { config } = ts.readConfigFile(project, ts.sys.readFile)
+  const { fileNames, options } = ts.parseJsonConfigFileContent(
+    config,
+    ts.sys,
+    dirname(project),
+  )
+  return ts
+    .getPreEmitDiagnostics(ts.createProgram(fileNames, options))
+    .map(({ messageText }) =>
+      ts.flattenDiagnosticMessageText(messageText, '\n'),
+    )
+}
+
+const services = `
+import * as ipc from '${base}'
+import { IpcMethod, IpcService, type IpcInput, type IpcOutput } from '${base}'
+import type { StandardSchemaV1 } from '${standardSchema}'
+
+export enum Theme {
+  Light = 'light',
+  Dark = 'dark',
+}
+
+interface User {
+  readonly id: number
+  name?: string
+  'display-name': string
+  tags: readonly string[]
+}
+
+interface Tree {
+  children: Tree[]
+}
+
+class Tally {
+  total = 0
+}
+
+class Counter extends Tally {
+  count = 0
+  #step = 1
+
+  increment() {
+    this.count += this.#step
+  }
+}
+
+declare const parseId: StandardSchemaV1<string, number>
+declare const formatId: StandardSchemaV1<number, string>
+
+const log = (_target: any, _key: string) => {}
+
+abstract class BaseService extends IpcService {
+  protected secret = 'hidden'
+}
+
+export class AppService extends BaseService {
+  static readonly groupName = 'app'
+
+  readonly updated = this.defineEvent<{ version: string }>()
+  readonly closed = this.defineEvent()
+  readonly counted = this.defineEvent<Counter>()
+  private readonly internal = this.defineEvent<string>()
+  version = '1.0.0'
+
+  @IpcMethod()
+  getVersion() {
+    return this.version
+  }
+
+  @ipc.IpcMethod()
+  async setTheme(theme: Theme, persist?: boolean): Promise<void> {}
+
+  @IpcMethod()
+  findUsers(filter: Partial<User> & { since?: Date }, ...ids: number[]) {
+    return [] as User[]
+  }
+
+  @IpcMethod()
+  async *watch(path: string): AsyncGenerator<{ path: string; size: bigint }> {}
+
+  @IpcMethod()
+  describe(
+    entry: [string, number?, ...boolean[]],
+    values: Record<string, 1 | 10n>,
+    flags: { [key: string]: true | string },
+    empty: {},
+    mapped: { [K in 'a' | 'b']: Map<K, (string | number)[]> },
+  ) {
+    return null as unknown as { count: number } | undefined
+  }
+
+  @IpcMethod()
+  walk(tree: Tree) {}
+
+  @IpcMethod()
+  read(): Uint8Array {
+    return new Uint8Array()
+  }
+
+  @IpcMethod({ input: parseId, output: formatId })
+  next(id: IpcInput<typeof parseId>): IpcOutput<typeof formatId> {
+    return id + 1
+  }
+
+  @IpcMethod()
+  subscribe(
+    listener: (value: string, label?: string) => void,
+    file: Buffer,
+    done?: (() => void) | ((error: Error) => void),
+  ) {
+    return new Counter()
+  }
+
+  @log
+  notExposed() {}
+
+  helper() {}
+}
+`
+
+const declaration = `// Generated by electron-ipc-decorator. Do not edit.
+
+interface IpcEventSubscriber<Events> {
+  on<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): () => void
+  once<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): () => void
+  off<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): void
+}
+
+export type IpcServices = {
+  app: {
+    getVersion: () => Promise<string>
+    setTheme: (theme: "light" | "dark", persist?: boolean) => Promise<void>
+    findUsers: (filter: Partial<{ readonly id: number; name?: string; "display-name": string; tags: readonly string[] }> & { since?: Date }, ...ids: number[]) => Promise<{ readonly id: number; name?: string; "display-name": string; tags: readonly string[] }[]>
+    watch: (path: string) => AsyncIterable<{ path: string; size: bigint }>
+    describe: (entry: [string, number?, ...boolean[]], values: Record<string, 1 | 10n>, flags: { [key: string]: string | true }, empty: {}, mapped: { a: Map<"a", (string | number)[]>; b: Map<"b", (string | number)[]> }) => Promise<undefined | { count: number }>
+    walk: (tree: { children: unknown[] }) => Promise<void>
+    read: () => Promise<Uint8Array<ArrayBufferLike>>
+    next: (id: string) => Promise<string>
+    subscribe: { readonly __ipcTypeError: "args[0] is a function" | "args[1] is a Buffer, which arrives as a Uint8Array" | "args[2] is a function" | "result has methods, which are lost over IPC. Register a codec for it in IpcCodecTypes" }
+  } & IpcEventSubscriber<{
+    updated: { version: string }
+    closed: void
+    counted: { count: number; total: number }
+  }>
+}
+`
+
+afterAll(() => {
+  for (const directory of directories.splice(0)) {
+    rmSync(directory, { recursive: true, force: true })
+  }
+})
+
+describe('generateIpcSurface', () => {
+  let result: GenerateResult
+
+  beforeAll(() => {
+    result = generateIpcSurface({
+      project: createProject({ 'services.ts': services }),
+    })
+  }, 30_000)
+
+  it('should describe the channels of decorated methods', () => {
+    expect(result.surface.channels).toEqual([
+      {
+        channel: 'app.getVersion',
+        group: 'app',
+        method: 'getVersion',
+        params: [],
+        returns: 'Promise<string>',
+        stream: false,
+      },
+      {
+        channel: 'app.setTheme',
+        group: 'app',
+        method: 'setTheme',
+        params: [
+          {
+            name: 'theme',
+            type: '"light" | "dark"',
+            optional: false,
+            rest: false,
+          },
+          { name: 'persist', type: 'boolean', optional: true, rest: false },
+        ],
+        returns: 'Promise<void>',
+        stream: false,
+      },
+      {
+        channel: 'app.findUsers',
+        group: 'app',
+        method: 'findUsers',
+        params: [
+          {
+            name: 'filter',
+            type: 'Partial<{ readonly id: number; name?: string; "display-name": string; tags: readonly string[] }> & { since?: Date }',
+            optional: false,
+            rest: false,
+          },
+          { name: 'ids', type: 'number[]', optional: false, rest: true },
+        ],
+        returns:
+          'Promise<{ readonly id: number; name?: string; "display-name": string; tags: readonly string[] }[]>',
+        stream: false,
+      },
+      {
+        channel: 'app.watch',
+        group: 'app',
+        method: 'watch',
+        params: [
+          { name: 'path', type: 'string', optional: false, rest: false },
+        ],
+        returns: 'AsyncIterable<{ path: string; size: bigint }>',
+        stream: true,
+      },
+      {
+        channel: 'app.describe',
+        group: 'app',
+        method: 'describe',
+        params: [
+          {
+            name: 'entry',
+            type: '[string, number?, ...boolean[]]',
+            optional: false,
+            rest: false,
+          },
+          {
+            name: 'values',
+            type: 'Record<string, 1 | 10n>',
+            optional: false,
+            rest: false,
+          },
+          {
+            name: 'flags',
+            type: '{ [key: string]: string | true }',
+            optional: false,
+            rest: false,
+          },
+          { name: 'empty', type: '{}', optional: false, rest: false },
+          {
+            name: 'mapped',
+            type: '{ a: Map<"a", (string | number)[]>; b: Map<"b", (string | number)[]> }',
+            optional: false,
+            rest: false,
+          },
+        ],
+        returns: 'Promise<undefined | { count: number }>',
+        stream: false,
+      },
+      {
+        channel: 'app.walk',
+        group: 'app',
+        method: 'walk',
+        params: [
+          {
+            name: 'tree',
+            type: '{ children: unknown[] }',
+            optional: false,
+            rest: false,
+          },
+        ],
+        returns: 'Promise<void>',
+        stream: false,
+      },
+      {
+        channel: 'app.read',
+        group: 'app',
+        method: 'read',
+        params: [],
+        returns: 'Promise<Uint8Array<ArrayBufferLike>>',
+        stream: false,
+      },
+      {
+        channel: 'app.next',
+        group: 'app',
+        method: 'next',
+        params: [{ name: 'id', type: 'string', optional: false, rest: false }],
+        returns: 'Promise<string>',
+        stream: false,
+      },
+      {
+        channel: 'app.subscribe',
+        group: 'app',
+        method: 'subscribe',
+        params: [
+          { name: 'listener', type: 'never', optional: false, rest: false },
+          {
+            name: 'file',
+            type: 'Uint8Array<ArrayBufferLike>',
+            optional: false,
+            rest: false,
+          },
+          { name: 'done', type: 'never', optional: true, rest: false },
+        ],
+        returns: 'Promise<{ count: number; total: number }>',
+        stream: false,
+        errors: [
+          'args[0] is a function',
+          'args[1] is a Buffer, which arrives as a Uint8Array',
+          'args[2] is a function',
+          'result has methods, which are lost over IPC. Register a codec for it in IpcCodecTypes',
+        ],
+      },
+    ])
+  })
+
+  it('should describe public events', () => {
+    expect(result.surface.events).toEqual([
+      {
+        channel: 'app.updated',
+        group: 'app',
+        event: 'updated',
+        payload: '{ version: string }',
+      },
+      { channel: 'app.closed', group: 'app', event: 'closed', payload: 'void' },
+      {
+        channel: 'app.counted',
+        group: 'app',
+        event: 'counted',
+        payload: '{ count: number; total: number }',
+      },
+    ])
+  })
+
+  it('should emit a standalone declaration of the client', () => {
+    expect(result.declaration).toBe(declaration)
+  })
+
+  it('should emit a declaration matching MergeIpcService', () => {
+    const project = createProject({
+      'services.ts': services,
+      'ipc.d.ts': result.declaration,
+      'check.ts': `
+import type { MergeIpcService } from '${utility}'
+import type { IpcServices } from './ipc'
+import type { AppService } from './services'
+
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
+type Client = MergeIpcService<{ app: AppService }>['app']
+
+// Recursive types are only expanded once and enums are printed as their
+// values, so walk and setTheme only accept more than the client
+type Generated = Omit<IpcServices['app'], 'walk' | 'setTheme'>
+export const same: Same<Generated, Pick<Client, keyof Generated>> = true
+`,
+    })
+
+    expect(getDiagnostics(project)).toEqual([])
+  }, 30_000)
+})
+
+describe('generateIpcSurface codecs', () => {
+  const services = `
+import { IpcMethod, IpcService } from '${base}'
+
+class Money {
+  constructor(readonly cents: number) {}
+
+  add(other: Money, ...rest: number[]): Money {
+    return this
+  }
+
+  format(locale?: string): string
+  format(locale: string, currency: string): string
+  format() {
+    return ''
+  }
+}
+
+class Ledger extends Map<string, Money> {}
+class GeneralLedger extends Ledger {}
+
+class WalletError extends Error {
+  code = 'WALLET'
+}
+
+declare module '${serializer}' {
+  interface IpcCodecTypes {
+    money: Money
+  }
+}
+
+export class WalletService extends IpcService {
+  static readonly groupName = 'wallet'
+
+  @IpcMethod()
+  balance() {
+    return new Money(0)
+  }
+
+  @IpcMethod()
+  ledger(): GeneralLedger {
+    return new GeneralLedger()
+  }
+
+  @IpcMethod()
+  fail(): WalletError {
+    return new WalletError()
+  }
+
+  @IpcMethod()
+  history(...entries: Map<string, Set<Money | symbol>>[]) {}
+
+  @IpcMethod()
+  inspect(
+    value: unknown,
+    labels: { [key: string]: symbol | number; count: number },
+    pending: Promise<string>,
+    id: string & { brand?: true },
+  ) {}
+}
+`
+
+  it('should keep codec types as they are', () => {
+    const project = createProject({ 'services.ts': services })
+    const { declaration } = generateIpcSurface({ project })
+
+    expect(declaration).toContain(`  wallet: {
+    balance: () => Promise<{ readonly cents: number; add: (other: unknown, ...rest: number[]) => unknown; format: ((locale?: string) => string) & ((locale: string, currency: string) => string) }>
+    ledger: () => Promise<Map<string, { readonly cents: number; add: (other: unknown, ...rest: number[]) => unknown; format: ((locale?: string) => string) & ((locale: string, currency: string) => string) }>>
+    fail: () => Promise<Error>
+    history: { readonly __ipcTypeError: "args[number]<value><value> is a symbol" }
+    inspect: { readonly __ipcTypeError: \`args[1].\${string} is a symbol\` | "args[2] has methods, which are lost over IPC. Register a codec for it in IpcCodecTypes" }
+  }`)
+
+    const check = createProject({
+      'services.ts': services,
+      'ipc.d.ts': declaration,
+      'check.ts': `
+import type { MergeIpcService } from '${utility}'
+import type { IpcServices } from './ipc'
+import type { WalletService } from './services'
+
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
+type Client = MergeIpcService<{ wallet: WalletService }>['wallet']
+
+type Generated = Pick<IpcServices['wallet'], 'history' | 'inspect'>
+export const same: Same<Generated, Pick<Client, keyof Generated>> = true
+`,
+    })
+    expect(getDiagnostics(check)).toEqual([])
+  }, 30_000)
+})
+
+describe('generateIpcSurface errors', () => {
+  // Services are found by the name of their base class
+  const standIn = `
+export abstract class IpcService {}
+export const IpcMethod = () => (_target: any, _key: string) => {}
+`
+
+  it('should report invalid projects', () => {
+    expect(() =>
+      generateIpcSurface({ project: join(tmpdir(), 'missing.json') }),
+    ).toThrow('Cannot read file')
+    expect(() =>
+      generateIpcSurface({
+        project: createProject({ 'a.ts': '' }, { unknownOption: true }),
+      }),
+    ).toThrow("Unknown compiler option 'unknownOption'")
+  })
+
+  it('should skip classes that are not services', () => {
+    const project = createProject(
+      {
+        'services.ts': `${standIn}
+class Plain {}
+abstract class Unnamed extends IpcService {}
+export default class extends IpcService {}
+export class LooseService extends Unnamed {
+  static readonly groupName = 'loose'
+
+  @IpcMethod()
+  find(name?: string) {}
+}
+`,
+      },
+      { strict: false },
+    )
+
+    const { declaration, surface } = generateIpcSurface({
+      project,
+      typeName: 'Services',
+    })
+    expect(surface).toEqual({
+      channels: [
+        {
+          channel: 'loose.find',
+          group: 'loose',
+          method: 'find',
+          params: [
+            { name: 'name', type: 'string', optional: true, rest: false },
+          ],
+          returns: 'Promise<void>',
+          stream: false,
+        },
+      ],
+      events: [],
+    })
+    expect(declaration).toContain(
+      'export type Services = {\n  loose: {\n    find: (name?: string) => Promise<void>\n  }\n}\n',
+    )
+  })
+
+  it('should reject duplicate groups', () => {
+    const project = createProject({
+      'services.ts': `${standIn}
+class AppService extends IpcService {
+  static readonly groupName = 'app'
+}
+class OtherAppService extends IpcService {
+  static readonly groupName = 'app'
+}
+`,
+    })
+
+    expect(() => generateIpcSurface({ project })).toThrow(
+      'Duplicate IPC service group "app" in OtherAppService',
+    )
+  })
+})
@@ -0,0 +1,740 @@
+import { dirname, resolve } from 'node:path'
+import ts from 'typescript'
+
+export interface IpcParameterDescription {
+  name: string
+  type: string
+  optional: boolean
+  rest: boolean
+}
+
+export interface IpcChannelDescription {
+  channel: string
+  group: string
+  method: string
+  params: IpcParameterDescription[]
+  // Type the client proxy resolves to, e.g. `Promise<string>`
+  returns: string
+  stream: boolean
+  // Why the method cannot be called over IPC, see IpcTypeError
+  errors?: string[]
+}
+
+export interface IpcEventChannelDescription {
+  channel: string
+  group: string
+  event: string
+  payload: string
+}
+
+// JSON description of the IPC surface
+export interface IpcSurface {
+  channels: IpcChannelDescription[]
+  events: IpcEventChannelDescription[]
+}
+
+export interface GenerateOptions {
+  // tsconfig.json of the main process
+  project?: string
+  // Name of the exported client type
+  typeName?: string
+}
+
+export interface GenerateResult {
+  // Standalone declaration of the client surface
+  declaration: string
+  surface: IpcSurface
+}
+
+interface ServiceDescription {
+  group: string
+  methods: IpcChannelDescription[]
+  events: IpcEventChannelDescription[]
+}
+
+const streamTypeNames = new Set([
+  'AsyncIterable',
+  'AsyncIterableIterator',
+  'AsyncGenerator',
+])
+
+// Read the IpcService classes of a project and describe the client surface
+// that MergeIpcService produces for them, without referencing their source
+export function generateIpcSurface({
+  project = 'tsconfig.json',
+  typeName = 'IpcServices',
+}: GenerateOptions = {}): GenerateResult {
+  const program = createProgram(resolve(project))
+  const checker = program.getTypeChecker()
+  const printer = createTypePrinter(program, checker)
+  const services = new Map<string, ServiceDescription>()
+
+  const visit = (node: ts.Node) => {
+    if (ts.isClassDeclaration(node) && node.name) {
+      const service = describeService(node, checker, printer)
+      if (service) {
+        if (services.has(service.group)) {
+          throw new Error(
+            `Duplicate IPC service group "${service.group}" in ${node.name.text}`,
+          )
+        }
+        services.set(service.group, service)
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  for (const sourceFile of program.getSourceFiles()) {
+    if (
+      !sourceFile.isDeclarationFile &&
+      !program.isSourceFileFromExternalLibrary(sourceFile)
+    ) {
+      visit(sourceFile)
+    }
+  }
+
+  const descriptions = [...services.values()]
+  return {
+    declaration: printDeclaration(descriptions, typeName),
+    surface: {
+      channels: descriptions.flatMap(({ methods }) => methods),
+      events: descriptions.flatMap(({ events }) => events),
+    },
+  }
+}
+
+function createProgram(project: string) {
+  const config = ts.readConfigFile(project, ts.sys.readFile)
+  const parsed = config.error
+    ? undefined
+    : ts.parseJsonConfigFileContent(config.config, ts.sys, dirname(project))
+  const errors = config.error ? [config.error] : parsed!.errors
+
+  if (errors.length > 0) {
+    throw new Error(
+      errors
+        .map((error) =>
+          ts.flattenDiagnosticMessageText(error.messageText, '\n'),
+        )
+        .join('\n'),
+    )
+  }
+
+  return ts.createProgram(parsed!.fileNames, parsed!.options)
+}
+
+function describeService(
+  node: ts.ClassDeclaration,
+  checker: ts.TypeChecker,
+  { print: printType, findErrors }: ReturnType<typeof createTypePrinter>,
+): ServiceDescription | undefined {
+  const symbol = checker.getSymbolAtLocation(node.name!)!
+  const instanceType = checker.getDeclaredTypeOfSymbol(symbol)
+  if (!extendsIpcService(instanceType, checker)) {
+    return
+  }
+
+  // Abstract bases without a literal groupName are not services
+  const constructorType = checker.getTypeOfSymbolAtLocation(symbol, node)
+  const groupName = checker.getPropertyOfType(constructorType, 'groupName')
+  const groupType = groupName && checker.getTypeOfSymbol(groupName)
+  if (!groupType?.isStringLiteral()) {
+    return
+  }
+  const group = groupType.value
+
+  const methods = node.members
+    .filter(
+      (member): member is ts.MethodDeclaration =>
+        ts.isMethodDeclaration(member) && isIpcMethod(member),
+    )
+    .map((member) => {
+      const method = member.name.getText()
+      const signature = checker.getSignatureFromDeclaration(member)!
+      const output = checker.getAwaitedType(
+        checker.getReturnTypeOfSignature(signature),
+      )!
+      const chunk = getStreamChunk(output, checker)
+      const parameters = signature.getParameters()
+      const rest = parameters.some(
+        (parameter) =>
+          !!(parameter.valueDeclaration as ts.ParameterDeclaration)
+            .dotDotDotToken,
+      )
+
+      // Same checks as ExtractServiceMethods
+      const errors = [
+        ...new Set([
+          ...parameters.flatMap((parameter, index) => {
+            const type = checker.getTypeOfSymbol(parameter)
+            if (!rest) {
+              return findErrors(type, `args[${index}]`)
+            }
+            // Check the elements of the rest parameter
+            const declaration =
+              parameter.valueDeclaration as ts.ParameterDeclaration
+            return findErrors(
+              declaration.dotDotDotToken
+                ? checker.getIndexTypeOfType(type, ts.IndexKind.Number)!
+                : type,
+              'args[number]',
+            )
+          }),
+          ...(chunk
+            ? findErrors(chunk, 'chunk')
+            : findErrors(output, 'result')),
+        ]),
+      ]
+
+      return {
+        channel: `${group}.${method}`,
+        group,
+        method,
+        params: parameters.map((parameter) => {
+          const declaration =
+            parameter.valueDeclaration as ts.ParameterDeclaration
+          const optional = checker.isOptionalParameter(declaration)
+          const type = checker.getTypeOfSymbol(parameter)
+
+          return {
+            name: parameter.name,
+            type: printType(optional ? removeUndefined(type) : type),
+            optional,
+            rest: !!declaration.dotDotDotToken,
+          }
+        }),
+        returns: chunk
+          ? `AsyncIterable<${printType(chunk)}>`
+          : `Promise<${printType(output)}>`,
+        stream: !!chunk,
+        ...(errors.length > 0 && { errors }),
+      }
+    })
+
+  const events = checker
+    .getPropertiesOfType(instanceType)
+    .filter((property) => isPublic(property))
+    .flatMap((property) => {
+      const type = checker.getTypeOfSymbol(property)
+      if (type.getSymbol()?.name !== 'IpcEvent') {
+        return []
+      }
+
+      const [payload] = checker.getTypeArguments(type as ts.TypeReference)
+      return [
+        {
+          channel: `${group}.${property.name}`,
+          group,
+          event: property.name,
+          payload: printType(payload),
+        },
+      ]
+    })
+
+  return { group, methods, events }
+}
+
+function extendsIpcService(type: ts.Type, checker: ts.TypeChecker): boolean {
+  return checker
+    .getBaseTypes(type as ts.InterfaceType)
+    .some(
+      (base) =>
+        base.getSymbol()?.name === 'IpcService' ||
+        extendsIpcService(base, checker),
+    )
+}
+
+function isIpcMethod(member: ts.MethodDeclaration) {
+  return (ts.getDecorators(member) ?? []).some(({ expression }) => {
+    const callee = ts.isCallExpression(expression)
+      ? expression.expression
+      : expression
+    const name = ts.isPropertyAccessExpression(callee) ? callee.name : callee
+    return ts.isIdentifier(name) && name.text === 'IpcMethod'
+  })
+}
+
+// Members of mapped types have no declaration
+function getModifierFlags({ valueDeclaration }: ts.Symbol) {
+  return valueDeclaration
+    ? ts.getCombinedModifierFlags(valueDeclaration)
+    : ts.ModifierFlags.None
+}
+
+function isPublic(symbol: ts.Symbol) {
+  return !(
+    getModifierFlags(symbol) &
+    (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)
+  )
+}
+
+function getStreamChunk(type: ts.Type, checker: ts.TypeChecker) {
+  return streamTypeNames.has(type.getSymbol()?.name ?? '')
+    ? checker.getTypeArguments(type as ts.TypeReference)[0]
+    : undefined
+}
+
+// Optional parameters and properties are printed with `?` instead
+function removeUndefined(type: ts.Type): ts.Type {
+  if (!type.isUnion()) {
+    return type
+  }
+
+  const types = type.types.filter(
+    (member) => !(member.flags & ts.TypeFlags.Undefined),
+  )
+  return types.length === 1
+    ? types[0]
+    : Object.assign(Object.create(Object.getPrototypeOf(type)), type, { types })
+}
+
+// Library types structured clone copies as they are
+const cloneableTypeNames = new Set([
+  'Date',
+  'RegExp',
+  'Error',
+  'ArrayBuffer',
+  'DataView',
+  'Int8Array',
+  'Uint8Array',
+  'Uint8ClampedArray',
+  'Int16Array',
+  'Uint16Array',
+  'Int32Array',
+  'Uint32Array',
+  'Float32Array',
+  'Float64Array',
+  'BigInt64Array',
+  'BigUint64Array',
+])
+
+// Schema type the client uses for IpcInput and IpcOutput
+const schemaTypeKeys = new Map<string, 'input' | 'output'>([
+  ['IpcInput', 'input'],
+  ['IpcOutput', 'output'],
+])
+
+// Methods over IPC are typed like this, see IpcTypeError
+const printTypeError = (errors: string[]) =>
+  `{ readonly __ipcTypeError: ${errors
+    .map((error) =>
+      // Index signatures give template literal types, e.g. `a.${string}`
+      error.includes('${string}')
+        ? `\`${error.replace(/[`\\]/g, '\\$&')}\``
+        : JSON.stringify(error),
+    )
+    .join(' | ')} }`
+
+// Print types structurally as they arrive over IPC, like Serialized, so the
+// declaration does not depend on the project. Only types of the standard
+// library are referenced by name
+function createTypePrinter(program: ts.Program, checker: ts.TypeChecker) {
+  const expanding = new Set<ts.Type>()
+  const codecTypes = getCodecTypes(program, checker)
+
+  const isLibraryType = (symbol: ts.Symbol) =>
+    (symbol.declarations ?? []).some((declaration) =>
+      program.isSourceFileDefaultLibrary(declaration.getSourceFile()),
+    )
+
+  const isFunction = (type: ts.Type) =>
+    checker.getSignaturesOfType(type, ts.SignatureKind.Call).length > 0
+
+  // Symbol keys and #private fields cannot be printed as names
+  const isNamedProperty = (property: ts.Symbol) =>
+    !/^__[@#]/.test(property.escapedName as string) && isPublic(property)
+
+  // Library type a project class derives from, e.g. Uint8Array for Buffer
+  const getLibraryBase = (
+    type: ts.Type,
+  ): { symbol: ts.Symbol; args: readonly ts.Type[] } | undefined => {
+    const reference =
+      (type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference
+        ? (type as ts.TypeReference)
+        : undefined
+    const target = reference?.target ?? type
+    if (
+      !((target as ts.ObjectType).objectFlags & ts.ObjectFlags.ClassOrInterface)
+    ) {
+      return
+    }
+
+    const params = (target as ts.InterfaceType).typeParameters ?? []
+    const args = reference ? checker.getTypeArguments(reference) : []
+    for (const base of checker.getBaseTypes(target as ts.InterfaceType)) {
+      const symbol = base.getSymbol()
+      if (symbol && isLibraryType(symbol)) {
+        // Pass the type arguments of the class on, e.g. Buffer<ArrayBuffer>
+        const baseArgs =
+          (base as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference
+            ? checker
+                .getTypeArguments(base as ts.TypeReference)
+                .map(
+                  (arg) => args[params.indexOf(arg as ts.TypeParameter)] ?? arg,
+                )
+            : []
+        return { symbol, args: baseArgs }
+      }
+      const found = getLibraryBase(base)
+      if (found) {
+        return found
+      }
+    }
+  }
+
+  const getLibrarySymbol = (type: ts.Type) => {
+    const symbol = type.getSymbol()
+    return symbol && isLibraryType(symbol)
+      ? symbol
+      : getLibraryBase(type)?.symbol
+  }
+
+  // Type a schema accepts or produces, like StandardSchemaV1.InferInput
+  const getSchemaType = (schema: ts.Type, key: 'input' | 'output') => {
+    const standard = checker.getPropertyOfType(schema, '~standard')
+    const types =
+      standard &&
+      checker.getPropertyOfType(checker.getTypeOfSymbol(standard), 'types')
+    const value =
+      types &&
+      checker.getPropertyOfType(
+        checker.getNonNullableType(checker.getTypeOfSymbol(types)),
+        key,
+      )
+    return value && checker.getTypeOfSymbol(value)
+  }
+
+  // The client sends the schema input of IpcInput parameters and receives
+  // the schema output of IpcOutput results
+  const toWireType = (type: ts.Type) => {
+    const [schema] = type.aliasTypeArguments ?? []
+    const key = schemaTypeKeys.get(type.aliasSymbol?.name ?? '')
+    return (schema && key && getSchemaType(schema, key)) || type
+  }
+
+  // Why a value of this type cannot be sent over IPC, like
+  // SerializationError in utility.ts
+  const findErrors = (type: ts.Type, path: string, depth = 0): string[] => {
+    type = toWireType(type)
+    if (
+      type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown) ||
+      depth === 8 ||
+      codecTypes.has(type)
+    ) {
+      return []
+    }
+    if (type.isUnion()) {
+      return type.types.flatMap((member) => findErrors(member, path, depth))
+    }
+
+    const symbol = getLibrarySymbol(type)
+    if (
+      symbol?.name === 'Uint8Array' &&
+      !isLibraryType(type.getSymbol()!) &&
+      checker.getPropertyOfType(type, 'readUInt8')
+    ) {
+      return [`${path} is a Buffer, which arrives as a Uint8Array`]
+    }
+    if (type.flags & ts.TypeFlags.ESSymbolLike) {
+      return [`${path} is a symbol`]
+    }
+    if (
+      !(type.flags & (ts.TypeFlags.Object | ts.TypeFlags.Intersection)) ||
+      (type.isIntersection() &&
+        type.types.some((member) => !(member.flags & ts.TypeFlags.Object))) ||
+      cloneableTypeNames.has(symbol?.name ?? '')
+    ) {
+      return []
+    }
+    if (isFunction(type)) {
+      return [`${path} is a function`]
+    }
+
+    const next = depth + 1
+    if (symbol?.name === 'Map' || symbol?.name === 'Set') {
+      const args = isLibraryType(type.getSymbol()!)
+        ? checker.getTypeArguments(type as ts.TypeReference)
+        : getLibraryBase(type)!.args
+      return symbol.name === 'Map'
+        ? [
+            ...findErrors(args[0], `${path}<key>`, next),
+            ...findErrors(args[1], `${path}<value>`, next),
+          ]
+        : findErrors(args[0], `${path}<value>`, next)
+    }
+    if (checker.isArrayType(type) || checker.isTupleType(type)) {
+      return checker
+        .getTypeArguments(type as ts.TypeReference)
+        .flatMap((element) => findErrors(element, `${path}[number]`, next))
+    }
+
+    const properties = checker.getPropertiesOfType(type).filter(isPublic)
+    const stringIndex = checker.getIndexInfoOfType(type, ts.IndexKind.String)
+    const members = [
+      ...properties.map((property) => checker.getTypeOfSymbol(property)),
+      ...checker.getIndexInfosOfType(type).map(({ type }) => type),
+    ]
+    // Optional methods count as well
+    if (
+      members.some((member) => isFunction(checker.getNonNullableType(member)))
+    ) {
+      return [
+        `${path} has methods, which are lost over IPC. Register a codec for it in IpcCodecTypes`,
+      ]
+    }
+    return [
+      ...properties
+        .filter(isNamedProperty)
+        .flatMap((property) =>
+          findErrors(
+            checker.getTypeOfSymbol(property),
+            `${path}.${property.name}`,
+            next,
+          ),
+        ),
+      ...(stringIndex
+        ? findErrors(stringIndex.type, `${path}.\${string}`, next)
+        : []),
+    ]
+  }
+
+  const wrap = (type: ts.Type) => {
+    const printed = print(type)
+    // Function types are the only printed types starting with a parenthesis
+    return (type.isUnion() && !(type.flags & ts.TypeFlags.Boolean)) ||
+      type.isIntersection() ||
+      printed.startsWith('(')
+      ? `(${printed})`
+      : printed
+  }
+
+  const printReference = (name: string, args: readonly ts.Type[]) =>
+    args.length > 0
+      ? `${name}<${args.map((arg) => print(arg)).join(', ')}>`
+      : name
+
+  const printSignature = (signature: ts.Signature) => {
+    const params = signature.getParameters().map((parameter) => {
+      const declaration = parameter.valueDeclaration as ts.ParameterDeclaration
+      const rest = declaration.dotDotDotToken ? '...' : ''
+      const optional = checker.isOptionalParameter(declaration)
+      const type = checker.getTypeOfSymbol(parameter)
+      return `${rest}${parameter.name}${optional ? '?' : ''}: ${print(
+        optional ? removeUndefined(type) : type,
+      )}`
+    })
+    return `(${params.join(', ')}) => ${print(signature.getReturnType())}`
+  }
+
+  // Codec types keep their methods, overloads are printed as an intersection
+  const printMethod = (type: ts.Type) => {
+    const signatures = checker
+      .getSignaturesOfType(type, ts.SignatureKind.Call)
+      .map((signature) => printSignature(signature))
+    return signatures.length === 1
+      ? signatures[0]
+      : signatures.map((signature) => `(${signature})`).join(' & ')
+  }
+
+  const printObject = (type: ts.Type, withMethods: boolean) => {
+    const members = checker
+      .getPropertiesOfType(type)
+      .filter(isNamedProperty)
+      .flatMap((property) => {
+        const propertyType = checker.getTypeOfSymbol(property)
+        const method = isFunction(propertyType)
+        if (method && !withMethods) {
+          return []
+        }
+
+        const optional = property.flags & ts.SymbolFlags.Optional
+        const readonly = getModifierFlags(property) & ts.ModifierFlags.Readonly
+        const name = /^[A-Za-z_$][\w$]*$/.test(property.name)
+          ? property.name
+          : JSON.stringify(property.name)
+        const printed = method
+          ? printMethod(propertyType)
+          : print(optional ? removeUndefined(propertyType) : propertyType)
+
+        return [
+          `${readonly ? 'readonly ' : ''}${name}${optional ? '?' : ''}: ${printed}`,
+        ]
+      })
+
+    for (const { keyType, type: valueType } of checker.getIndexInfosOfType(
+      type,
+    )) {
+      members.push(`[key: ${print(keyType)}]: ${print(valueType)}`)
+    }
+
+    return members.length > 0 ? `{ ${members.join('; ')} }` : '{}'
+  }
+
+  const print = (type: ts.Type): string => {
+    type = toWireType(type)
+    if (type.isLiteral()) {
+      return typeof type.value === 'object'
+        ? checker.typeToString(type)
+        : JSON.stringify(type.value)
+    }
+
+    // e.g. Record<string, number> or ArrayBufferLike
+    const { aliasSymbol, aliasTypeArguments = [] } = type
+    if (aliasSymbol && isLibraryType(aliasSymbol)) {
+      return printReference(aliasSymbol.name, aliasTypeArguments)
+    }
+
+    if (type.isUnion()) {
+      // `boolean` is a union of both boolean literals
+      const isBoolean = (member: ts.Type) =>
+        !!(member.flags & ts.TypeFlags.BooleanLiteral)
+      // Functions are dropped over IPC
+      const members = type.types.filter(
+        (member) => !isBoolean(member) && !isFunction(member),
+      )
+      const booleans = type.types.filter(isBoolean)
+      const printed = [
+        ...members.map((member) => wrap(member)),
+        ...(booleans.length === 2
+          ? ['boolean']
+          : booleans.map((member) => print(member))),
+      ]
+
+      return printed.length > 0 ? printed.join(' | ') : 'never'
+    }
+
+    if (isFunction(type)) {
+      return 'never'
+    }
+
+    if (type.isIntersection()) {
+      return type.types.map((member) => wrap(member)).join(' & ')
+    }
+
+    if (!(type.flags & ts.TypeFlags.Object)) {
+      return checker.typeToString(type)
+    }
+
+    if (checker.isTupleType(type)) {
+      const { elementFlags } = (type as ts.TupleTypeReference).target
+      const elements = checker
+        .getTypeArguments(type as ts.TypeReference)
+        .map((element, index) =>
+          elementFlags[index] & ts.ElementFlags.Rest
+            ? `...${wrap(element)}[]`
+            : elementFlags[index] & ts.ElementFlags.Optional
+            ? `${wrap(removeUndefined(element))}?`
+            : print(element),
+        )
+      return `[${elements.join(', ')}]`
+    }
+
+    if (checker.isArrayType(type)) {
+      const [element] = checker.getTypeArguments(type as ts.TypeReference)
+      const readonly = type.getSymbol()!.name === 'ReadonlyArray'
+      return `${readonly ? 'readonly ' : ''}${wrap(element)}[]`
+    }
+
+    // e.g. Date or Map<string, number>
+    const symbol = type.getSymbol()
+    if (symbol && isLibraryType(symbol)) {
+      return printReference(
+        symbol.name,
+        (type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference
+          ? checker.getTypeArguments(type as ts.TypeReference)
+          : [],
+      )
+    }
+
+    // e.g. Uint8Array for Buffer, which structured clone copies as a
+    // Uint8Array. Codec types arrive as they are
+    const base = codecTypes.has(type) ? undefined : getLibraryBase(type)
+    if (base) {
+      return printReference(base.symbol.name, base.args)
+    }
+
+    // Recursive types cannot be expanded
+    if (expanding.has(type)) {
+      return 'unknown'
+    }
+    expanding.add(type)
+    try {
+      return printObject(type, codecTypes.has(type))
+    } finally {
+      expanding.delete(type)
+    }
+  }
+
+  return { print, findErrors }
+}
+
+// Types registered in IpcCodecTypes, which arrive as they are
+function getCodecTypes(program: ts.Program, checker: ts.TypeChecker) {
+  for (const sourceFile of program.getSourceFiles()) {
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isInterfaceDeclaration(statement) &&
+        statement.name.text === 'IpcCodecTypes'
+      ) {
+        // The declared type includes the members added by augmentations
+        const symbol = checker.getSymbolAtLocation(statement.name)!
+        return new Set(
+          checker
+            .getPropertiesOfType(checker.getDeclaredTypeOfSymbol(symbol))
+            .map((property) => checker.getTypeOfSymbol(property)),
+        )
+      }
+    }
+  }
+  return new Set<ts.Type>()
+}
+
+const eventSubscriberDeclaration = `interface IpcEventSubscriber<Events> {
+  on<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): () => void
+  once<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): () => void
+  off<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): void
+}`
+
+function printDeclaration(services: ServiceDescription[], typeName: string) {
+  const groups = services.map(({ group, methods, events }) => {
+    const methodLines = methods.map(({ method, params, returns, errors }) => {
+      if (errors) {
+        return `    ${method}: ${printTypeError(errors)}`
+      }
+
+      const args = params.map(
+        ({ name, type, optional, rest }) =>
+          `${rest ? '...' : ''}${name}${optional ? '?' : ''}: ${type}`,
+      )
+      return `    ${method}: (${args.join(', ')}) => ${returns}`
+    })
+    const eventLines = events.map(
+      ({ event, payload }) => `    ${event}: ${payload}`,
+    )
+
+    const client = `{\n${methodLines.join('\n')}\n  }`
+    return eventLines.length > 0
+      ? `  ${group}: ${client} & IpcEventSubscriber<{\n${eventLines.join('\n')}\n  }>`
+      : `  ${group}: ${client}`
+  })
+
+  return [
+    '// Generated by electron-ipc-decorator. Do not edit.',
+    '',
+    eventSubscriberDeclaration,
+    '',
+    `export type ${typeName} = {`,
+    ...groups,
+    '}',
+    '',
+  ].join('\n')
+}
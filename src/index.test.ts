@@ -1,10 +1,13 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 // Mock electron before importing
-vi.mock('electron', () => ({
-  ipcMain: {
-    handle: vi.fn(),
-  },
+vi.mock('./electron', () => ({
+  getElectron: () => ({
+    ipcMain: {
+      handle: vi.fn(),
+      on: vi.fn(),
+    },
+  }),
 }))
 
 describe('index module', () => {
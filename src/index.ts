@@ -1,4 +1,78 @@
-export { IpcMethod, IpcService, createServices, getIpcContext } from './base'
-export type { IpcContext, IpcServiceConstructor } from './base'
+export {
+  IpcEvent,
+  IpcHandler,
+  IpcMethod,
+  IpcService,
+  createServices,
+  getIpcCallContext,
+  getIpcContext,
+} from './base'
+export type {
+  ConnectPortOptions,
+  CreateServicesOptions,
+  IpcCallContext,
+  IpcConflictMode,
+  IpcContext,
+  IpcHandlerOptions,
+  IpcInput,
+  IpcMethodOptions,
+  IpcOutput,
+  IpcServedPort,
+  IpcServiceConstructor,
+  IpcServiceContainer,
+  IpcTarget,
+} from './base'
+export { IpcToken, createToken, provide } from './inject'
+export type { IpcDependency, IpcProvider } from './inject'
+export { createLocalProxy } from './local'
+export type { LocalProxyOptions } from './local'
+export { relayServices, serveParentProcess } from './process'
+export type { RelayServicesOptions } from './process'
+export { createScopedServices } from './scoped'
+export { createSerializer, defineCodec } from './serializer'
+export type {
+  IpcCodec,
+  IpcCodecTypes,
+  IpcSerializer,
+  IpcSerializerOptions,
+} from './serializer'
+export {
+  describeServices,
+  exposeServiceManifest,
+  getServiceManifest,
+} from './manifest'
+export type {
+  IpcManifest,
+  IpcMetaService,
+  IpcMethodDescription,
+  IpcMethodManifest,
+  IpcServiceDescription,
+  IpcServiceManifest,
+} from './manifest'
+export {
+  IpcError,
+  IpcForbiddenError,
+  IpcTimeoutError,
+  IpcValidationError,
+} from './errors'
+export type {
+  IpcErrorClass,
+  IpcErrorClasses,
+  IpcErrorOptions,
+  IpcValidationIssue,
+} from './errors'
+export type { SerializedIpcError } from './protocol'
+export type { IpcMiddleware, IpcMiddlewareContext } from './middleware'
+export type { IpcSenderPolicy, IpcSenderRules } from './policy'
+export type { StandardSchemaV1 } from './standard-schema'
 
-export type { MergeIpcService, ExtractServiceMethods } from './utility'
+export type {
+  MergeIpcService,
+  ExtractServiceMethods,
+  ExtractServiceEvents,
+  ExtractServiceClient,
+  IpcEventSubscriber,
+  IpcTypeError,
+  Serializable,
+  Serialized,
+} from './utility'
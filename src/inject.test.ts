@@ -0,0 +1,221 @@
+import { beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest'
+import { createServices, IpcHandler, IpcMethod, IpcService } from './base'
+import { createToken, provide } from './inject'
+
+const ipcMain = vi.hoisted(() => ({
+  handle: vi.fn(),
+  removeHandler: vi.fn(),
+  on: vi.fn(),
+}))
+
+vi.mock('./electron', () => ({ getElectron: () => ({ ipcMain }) }))
+
+interface Database {
+  get(key: string): string
+}
+
+const DatabaseToken = createToken<Database>('Database')
+const LoggerToken = createToken<(message: string) => void>('Logger')
+
+class SettingsService extends IpcService {
+  static readonly groupName = 'settings'
+  static readonly inject = [DatabaseToken] as const
+
+  constructor(private readonly db: Database) {
+    super()
+  }
+
+  @IpcMethod()
+  getLocale() {
+    return this.db.get('locale')
+  }
+}
+
+class AppService extends IpcService {
+  static readonly groupName = 'app'
+  static readonly inject = [SettingsService, LoggerToken] as const
+
+  constructor(
+    readonly settings: SettingsService,
+    private readonly log: (message: string) => void,
+  ) {
+    super()
+  }
+
+  @IpcMethod()
+  getTitle() {
+    this.log('getTitle')
+    return `App (${this.settings.getLocale()})`
+  }
+}
+
+describe('createServices dependencies', () => {
+  const db: Database = { get: (key) => `${key} value` }
+  const log = vi.fn()
+  const providers = [provide(DatabaseToken, db), provide(LoggerToken, log)]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(IpcHandler as any).instance = undefined
+  })
+
+  it('should create services after their dependencies', () => {
+    const services = createServices([AppService, SettingsService], {
+      providers,
+    })
+
+    expect(Object.keys(services)).toEqual(['app', 'settings'])
+    expect(services.app.settings).toBe(services.settings)
+    expect(services.app.getTitle()).toBe('App (locale value)')
+    expect(log).toHaveBeenCalledWith('getTitle')
+    expectTypeOf(services.app).toEqualTypeOf<AppService>()
+    expectTypeOf(services.settings).toEqualTypeOf<SettingsService>()
+  })
+
+  it('should initialize and dispose services in dependency order', async () => {
+    const calls: string[] = []
+    class First extends IpcService {
+      static readonly groupName = 'first'
+      static readonly inject = [SettingsService]
+
+      protected onInit() {
+        calls.push('first.init')
+      }
+
+      protected onDispose() {
+        calls.push('first.dispose')
+      }
+    }
+    class Second extends IpcService {
+      static readonly groupName = 'second'
+
+      protected onInit() {
+        calls.push('second.init')
+      }
+
+      protected onDispose() {
+        calls.push('second.dispose')
+      }
+    }
+    class Third extends IpcService {
+      static readonly groupName = 'third'
+      static readonly inject = [Second]
+    }
+
+    const services = createServices([First, Third, Second, SettingsService], {
+      providers,
+    })
+    await services.dispose()
+
+    expect(calls).toEqual([
+      'first.init',
+      'second.init',
+      'second.dispose',
+      'first.dispose',
+    ])
+  })
+
+  it('should reject tokens that are not provided', () => {
+    expect(() => createServices([SettingsService])).toThrow(
+      'SettingsService depends on Database, which is not provided',
+    )
+  })
+
+  it('should reject services that are not created', () => {
+    expect(() => createServices([AppService], { providers })).toThrow(
+      'AppService depends on SettingsService, which is not passed to createServices',
+    )
+  })
+
+  it('should reject undefined dependencies', () => {
+    class BrokenService extends IpcService {
+      static readonly groupName = 'broken'
+      static readonly inject = [DatabaseToken, undefined as any]
+    }
+
+    expect(() => createServices([BrokenService], { providers })).toThrow(
+      'Dependency 1 of BrokenService is undefined, check for circular imports',
+    )
+  })
+
+  it('should check every dependency before creating services', async () => {
+    expect(() =>
+      createServices([SettingsService, AppService], {
+        providers: [provide(DatabaseToken, db)],
+      }),
+    ).toThrow('AppService depends on Logger, which is not provided')
+    expect(ipcMain.handle).not.toHaveBeenCalled()
+
+    const services = createServices([SettingsService, AppService], {
+      providers,
+    })
+    expect(services.app.getTitle()).toBe('App (locale value)')
+  })
+
+  it('should remove the methods of created services when creation fails', async () => {
+    class FailingService extends IpcService {
+      static readonly groupName = 'failing'
+      static readonly inject = [SettingsService]
+
+      constructor(readonly settings: SettingsService) {
+        super()
+        throw new Error('Cannot open the session')
+      }
+
+      @IpcMethod()
+      open() {}
+    }
+    class LogService extends IpcService {
+      static readonly groupName = 'log'
+
+      @IpcMethod()
+      read() {}
+    }
+    class ConflictingService extends IpcService {
+      static readonly groupName = 'settings'
+      static readonly inject = [LogService]
+
+      @IpcMethod()
+      getLocale() {}
+    }
+    const handler = IpcHandler.getInstance()
+
+    expect(() =>
+      createServices([FailingService, SettingsService], { providers }),
+    ).toThrow('Cannot open the session')
+    expect(ipcMain.removeHandler).toHaveBeenCalledWith('settings.getLocale')
+    expect(ipcMain.removeHandler).toHaveBeenCalledWith('failing.open')
+    expect(handler.getChannels()).toEqual([])
+
+    createServices([SettingsService], { providers })
+    expect(() => createServices([ConflictingService, LogService])).toThrow(
+      'IPC channel settings.getLocale of ConflictingService is already registered by SettingsService',
+    )
+    expect(handler.getChannels()).toEqual(['settings.getLocale'])
+    createServices([LogService])
+  })
+
+  it('should detect dependency cycles', async () => {
+    class A extends IpcService {
+      static readonly groupName = 'a'
+      static inject: any[] = []
+
+      @IpcMethod()
+      run() {}
+    }
+    class B extends IpcService {
+      static readonly groupName = 'b'
+      static readonly inject = [A]
+    }
+    class C extends IpcService {
+      static readonly groupName = 'c'
+      static readonly inject = [B]
+    }
+    A.inject = [C]
+
+    expect(() => createServices([A, B, C])).toThrow(
+      'Circular dependency between IPC services: A -> C -> B -> A',
+    )
+    expect(ipcMain.handle).not.toHaveBeenCalled()
+  })
+})
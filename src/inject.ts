@@ -0,0 +1,111 @@
+import type { IpcService, IpcServiceConstructor } from './base'
+
+// Key of a value injected into services, e.g. a database or a logger
+export class IpcToken<T> {
+  // Phantom field used to carry the value type
+  declare readonly value: T
+
+  constructor(readonly description: string) {}
+}
+
+export function createToken<T>(description: string) {
+  return new IpcToken<T>(description)
+}
+
+// Value given to services depending on `token`
+export interface IpcProvider<T = any> {
+  token: IpcToken<T>
+  value: T
+}
+
+export function provide<T>(token: IpcToken<T>, value: T): IpcProvider<T> {
+  return { token, value }
+}
+
+// What a service can list in `static inject`
+export type IpcDependency = IpcToken<any> | IpcServiceConstructor
+
+// Create services after the services they depend on, passing their
+// dependencies to their constructor in the order of `static inject`. Every
+// dependency is checked before the first service is created
+export function instantiateServices(
+  constructors: IpcServiceConstructor[],
+  providers: IpcProvider[],
+): Map<IpcServiceConstructor, IpcService> {
+  const values = new Map<unknown, unknown>(
+    providers.map(({ token, value }) => [token, value]),
+  )
+  // Services in creation order
+  const order: IpcServiceConstructor[] = []
+  // Services being ordered, to report dependency cycles
+  const resolving: IpcServiceConstructor[] = []
+
+  const check = (
+    dependency: IpcDependency | undefined,
+    dependent: IpcServiceConstructor,
+    index: number,
+  ) => {
+    if (values.has(dependency)) {
+      return
+    }
+
+    if (!dependency) {
+      // Usually a service imported before its module finished loading
+      throw new Error(
+        `Dependency ${index} of ${dependent.name} is undefined, check for circular imports`,
+      )
+    }
+    if (dependency instanceof IpcToken) {
+      throw new Error(
+        `${dependent.name} depends on ${dependency.description}, which is not provided`,
+      )
+    }
+    if (!constructors.includes(dependency)) {
+      throw new Error(
+        `${dependent.name} depends on ${dependency.name}, which is not passed to createServices`,
+      )
+    }
+    visit(dependency)
+  }
+
+  const visit = (ServiceConstructor: IpcServiceConstructor) => {
+    if (order.includes(ServiceConstructor)) {
+      return
+    }
+    if (resolving.includes(ServiceConstructor)) {
+      const cycle = [
+        ...resolving.slice(resolving.indexOf(ServiceConstructor)),
+        ServiceConstructor,
+      ]
+      throw new Error(
+        `Circular dependency between IPC services: ${cycle
+          .map(({ name }) => name)
+          .join(' -> ')}`,
+      )
+    }
+
+    const dependencies = ServiceConstructor.inject ?? []
+    resolving.push(ServiceConstructor)
+    dependencies.forEach((dependency, index) =>
+      check(dependency, ServiceConstructor, index),
+    )
+    resolving.pop()
+    order.push(ServiceConstructor)
+  }
+
+  for (const ServiceConstructor of constructors) {
+    visit(ServiceConstructor)
+  }
+
+  const instances = new Map<IpcServiceConstructor, IpcService>()
+  for (const ServiceConstructor of order) {
+    const args = (ServiceConstructor.inject ?? []).map((dependency) =>
+      values.get(dependency),
+    )
+    const instance = new ServiceConstructor(...args)
+    values.set(ServiceConstructor, instance)
+    instances.set(ServiceConstructor, instance)
+  }
+
+  return instances
+}
@@ -0,0 +1,242 @@
+import { EventEmitter } from 'node:events'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createServices,
+  getIpcContext,
+  IpcHandler,
+  IpcMethod,
+  IpcService,
+} from './base'
+import { IpcForbiddenError, IpcValidationError } from './errors'
+import { createLocalProxy } from './local'
+import { createSerializer, defineCodec } from './serializer'
+import type { StandardSchemaV1 } from './standard-schema'
+
+vi.mock('./electron', () => ({
+  getElectron: () => ({
+    ipcMain: {
+      handle: vi.fn(),
+      removeHandler: vi.fn(),
+      on: vi.fn(),
+    },
+    webContents: { getAllWebContents: () => [] },
+  }),
+}))
+
+const nameSchema: StandardSchemaV1<string> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) =>
+      typeof value === 'string' && value
+        ? { value }
+        : { issues: [{ message: 'Expected a name' }] },
+  },
+}
+
+const createWindow = (origin: string) =>
+  Object.assign(new EventEmitter(), {
+    id: 1,
+    send: vi.fn(),
+    mainFrame: { origin, parent: null },
+  })
+
+const calls: string[] = []
+
+class UpdateService extends IpcService {
+  static readonly groupName = 'updates'
+  static readonly middleware = [
+    async ({ channel }: { channel: string }, next: () => Promise<unknown>) => {
+      calls.push(channel)
+      return next()
+    },
+  ]
+
+  readonly progress = this.defineEvent<number>()
+
+  @IpcMethod()
+  check() {
+    const { sender, event } = getIpcContext()
+    return {
+      id: sender.id,
+      url: sender.getURL(),
+      destroyed: sender.isDestroyed(),
+      origin: event.senderFrame?.origin ?? null,
+    }
+  }
+
+  @IpcMethod({ input: nameSchema })
+  install(name: string) {
+    this.progress.emitTo(getIpcContext().sender, 100)
+    return `Installed ${name}`
+  }
+
+  @IpcMethod({ allow: { origins: ['app://settings'] } })
+  reset() {
+    return 'reset'
+  }
+
+  @IpcMethod()
+  async *download() {
+    yield 50
+    yield 100
+  }
+
+  @IpcMethod()
+  wait() {
+    const { signal } = getIpcContext()
+    return new Promise((_, reject) =>
+      signal.addEventListener('abort', () => reject(signal.reason)),
+    )
+  }
+}
+
+describe('createLocalProxy', () => {
+  beforeEach(() => {
+    calls.length = 0
+    ;(IpcHandler as any).instance = undefined
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('should call services with a stand-in sender', async () => {
+    const services = createServices([UpdateService])
+    const updates = createLocalProxy(services).updates
+
+    await expect(updates.check()).resolves.toEqual({
+      id: -1,
+      url: '',
+      destroyed: false,
+      origin: null,
+    })
+    expect(calls).toEqual(['updates.check'])
+  })
+
+  it('should validate input and apply sender policies', async () => {
+    const services = createServices([UpdateService])
+    const local = createLocalProxy(services)
+    const window = createLocalProxy(services, {
+      context: { sender: createWindow('app://settings') as any },
+    })
+
+    await expect(local.updates.install('')).rejects.toBeInstanceOf(
+      IpcValidationError,
+    )
+    await expect(local.updates.reset()).rejects.toBeInstanceOf(
+      IpcForbiddenError,
+    )
+    await expect(window.updates.reset()).resolves.toBe('reset')
+  })
+
+  it('should deliver events emitted to the sender', async () => {
+    const services = createServices([UpdateService])
+    const { updates } = createLocalProxy(services)
+    const listener = vi.fn()
+    updates.on('progress', listener)
+
+    await expect(updates.install('1.2.0')).resolves.toBe('Installed 1.2.0')
+    expect(listener).toHaveBeenCalledWith(100)
+  })
+
+  it('should deliver broadcast events with the stand-in sender', async () => {
+    const services = createServices([UpdateService])
+    const listener = vi.fn()
+    createLocalProxy(services).updates.on('progress', listener)
+
+    services.updates.progress.emit(42)
+
+    expect(listener).toHaveBeenCalledWith(42)
+  })
+
+  it('should share one connection per sender', async () => {
+    const services = createServices([UpdateService])
+    const window = createWindow('app://settings')
+    const warning = vi.fn()
+    process.on('warning', warning)
+
+    for (let i = 0; i < 20; i++) {
+      await createLocalProxy(services, {
+        context: { sender: window as any },
+      }).updates.reset()
+      await createLocalProxy(services).updates.check()
+    }
+
+    expect(window.listenerCount('destroyed')).toBe(2)
+    expect(warning).not.toHaveBeenCalled()
+    process.off('warning', warning)
+  })
+
+  it('should stream results', async () => {
+    const services = createServices([UpdateService])
+    const chunks: number[] = []
+
+    for await (const chunk of createLocalProxy(services).updates.download()) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks).toEqual([50, 100])
+  })
+
+  it('should call services of prefixed handlers', async () => {
+    const handler = new IpcHandler({ prefix: 'plugins' })
+    const services = createServices([UpdateService], { handler })
+
+    await expect(
+      createLocalProxy(services).updates.check(),
+    ).resolves.toMatchObject({ id: -1 })
+  })
+
+  it('should stop calling for a destroyed window', async () => {
+    const services = createServices([UpdateService])
+    const window = createWindow('app://settings')
+    const { updates } = createLocalProxy(services, {
+      context: { sender: window as any },
+    })
+
+    const call = updates.wait()
+    await vi.waitFor(() => expect(window.listenerCount('destroyed')).toBe(2))
+    window.emit('destroyed')
+
+    await expect(call).rejects.toMatchObject({ code: 'PORT_CLOSED' })
+    await expect(updates.check()).rejects.toMatchObject({
+      code: 'PORT_CLOSED',
+    })
+  })
+
+  it('should use the serializer of the handler', async () => {
+    class Version {
+      constructor(readonly value: string) {}
+    }
+    const serializer = createSerializer({
+      codecs: [
+        defineCodec({
+          name: 'version',
+          test: (value): value is Version => value instanceof Version,
+          encode: ({ value }) => value,
+          decode: (value: string) => new Version(value),
+        }),
+      ],
+    })
+    class VersionService extends IpcService {
+      static readonly groupName = 'versions'
+
+      @IpcMethod()
+      next(version: Version) {
+        return new Version(`${version.value}.1`)
+      }
+    }
+    const services = createServices([VersionService], {
+      handler: new IpcHandler({ serializer }),
+    })
+
+    await expect(
+      createLocalProxy(services).versions.next(new Version('1.0')),
+    ).resolves.toStrictEqual(new Version('1.0.1'))
+  })
+
+  it('should use the default handler without services', async () => {
+    IpcHandler.getInstance().registerMethod('app.ping', () => 'pong')
+    const proxy = createLocalProxy({} as { app: { ping(): string } })
+
+    await expect(proxy.app.ping()).resolves.toBe('pong')
+  })
+})
@@ -0,0 +1,107 @@
+import { EventEmitter } from 'node:events'
+import type { WebContents } from 'electron'
+import { IpcHandler } from './base'
+import { createIpcProxy, type IpcClient, type IpcProxyOptions } from './client'
+import { createMessageTransport, type IpcPortTransport } from './port'
+import type { MergeIpcService } from './utility'
+
+export interface LocalProxyOptions extends Omit<IpcProxyOptions, 'namespace'> {
+  context?: {
+    // WebContents the calls are made for, e.g. the focused window of a menu
+    // item. Defaults to a stand-in without frame
+    sender?: WebContents
+  }
+}
+
+// Stands in for a renderer in calls made by the main process itself
+function createMainProcessSender(): WebContents {
+  return Object.assign(new EventEmitter(), {
+    id: -1,
+    mainFrame: null,
+    getURL: () => '',
+    isDestroyed: () => false,
+    send: () => {},
+  }) as unknown as WebContents
+}
+
+// Serve `handler` over an in-memory port, so calls run through the same
+// pipeline as calls from renderers. Messages are passed by reference
+function connectLocal(
+  handler: IpcHandler,
+  sender: WebContents,
+  broadcast: boolean,
+): IpcPortTransport {
+  let serve: (event: { data: unknown }) => void
+  let closeServed: () => void
+  let receive: (event: { data: unknown }) => void
+
+  handler.connectPort(
+    {
+      on: (event, listener) => {
+        if (event === 'message') {
+          serve = listener
+        } else {
+          closeServed = listener
+        }
+      },
+      postMessage: (message) => receive({ data: message }),
+    },
+    sender,
+    { broadcast },
+  )
+
+  const transport = createMessageTransport({
+    post: (message) => serve({ data: message }),
+    listen: (onMessage) => {
+      receive = onMessage
+    },
+    close: () => closeServed(),
+  })
+  sender.once('destroyed', () => transport.close())
+  return transport
+}
+
+// Connections of each handler, shared by the proxies calling for the same
+// sender, and the stand-in sender of calls made without one
+const connections = new WeakMap<
+  IpcHandler,
+  { standIn: WebContents; transports: WeakMap<WebContents, IpcPortTransport> }
+>()
+
+function getConnection(handler: IpcHandler, sender?: WebContents) {
+  if (!connections.has(handler)) {
+    connections.set(handler, {
+      standIn: createMainProcessSender(),
+      transports: new WeakMap(),
+    })
+  }
+
+  const { standIn, transports } = connections.get(handler)!
+  const target = sender ?? standIn
+  if (!transports.has(target)) {
+    // The stand-in receives every broadcast event, like the main process
+    transports.set(target, connectLocal(handler, target, !sender))
+  }
+  return transports.get(target)!
+}
+
+// Call services from the main process, e.g. from menus, the tray or the
+// auto-updater, through the same typed proxy as renderers. Calls run through
+// middleware, validation and sender policies, with an IpcContext whose sender
+// is `context.sender`
+export function createLocalProxy<T extends object>(
+  services: T,
+  { context = {}, ...options }: LocalProxyOptions = {},
+): IpcClient<MergeIpcService<T>> {
+  const service = Object.values(services)[0]
+  const handler: IpcHandler = service?.handler ?? IpcHandler.getInstance()
+
+  return createIpcProxy<MergeIpcService<T>>(
+    getConnection(handler, context.sender),
+    {
+      serializer: handler.serializer,
+      ...options,
+      namespace: handler.namespace,
+    },
+  )!
+}
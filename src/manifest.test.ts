@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createServices, IpcHandler, IpcMethod, IpcService } from './base'
+import type { IpcMiddleware } from './middleware'
+import {
+  describeServices,
+  exposeServiceManifest,
+  getServiceManifest,
+} from './manifest'
+import type { StandardSchemaV1 } from './standard-schema'
+
+const ipcMain = vi.hoisted(() => ({
+  handle: vi.fn(),
+  on: vi.fn(),
+}))
+
+vi.mock('./electron', () => ({ getElectron: () => ({ ipcMain }) }))
+
+const stringSchema: StandardSchemaV1<string> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => ({ value: value as string }),
+  },
+}
+
+const trusted = { origins: ['https://app.example.com'] }
+const logger: IpcMiddleware = (_, next) => next()
+
+class AppService extends IpcService {
+  static readonly groupName = 'app'
+  static readonly middleware = [logger]
+
+  readonly updated = this.defineEvent<string>()
+  version = '1.0.0'
+
+  @IpcMethod({ cache: { ttl: 60_000 } })
+  getVersion() {
+    return this.version
+  }
+
+  @IpcMethod({ input: stringSchema, deprecated: 'Use app.setLocale' })
+  switchLocale(locale: string) {
+    return locale
+  }
+}
+
+class AdminService extends IpcService {
+  static readonly groupName = 'admin'
+  static readonly policy = trusted
+
+  @IpcMethod({ output: stringSchema })
+  reset() {
+    return 'done'
+  }
+}
+
+describe('getServiceManifest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(IpcHandler as any).instance = undefined
+  })
+
+  it('should list groups, methods, events and channels', () => {
+    const services = createServices([AppService, AdminService])
+    const manifest = getServiceManifest(services)
+
+    expect(manifest.channels).toEqual([
+      'app.getVersion',
+      'app.switchLocale',
+      'admin.reset',
+    ])
+    expect(manifest.services).toEqual([
+      {
+        groupName: 'app',
+        className: 'AppService',
+        methods: [
+          {
+            name: 'getVersion',
+            channel: 'app.getVersion',
+            options: { cache: { ttl: 60_000 } },
+            policies: [],
+            middleware: [logger],
+          },
+          {
+            name: 'switchLocale',
+            channel: 'app.switchLocale',
+            options: { input: stringSchema, deprecated: 'Use app.setLocale' },
+            policies: [],
+            middleware: [logger],
+          },
+        ],
+        events: ['updated'],
+      },
+      {
+        groupName: 'admin',
+        className: 'AdminService',
+        methods: [
+          {
+            name: 'reset',
+            channel: 'admin.reset',
+            options: { output: stringSchema },
+            policies: [trusted],
+            middleware: [],
+          },
+        ],
+        events: [],
+      },
+    ])
+  })
+
+  it('should list services without decorated methods', () => {
+    class EmptyService extends IpcService {
+      static readonly groupName = 'empty'
+    }
+
+    expect(getServiceManifest(createServices([EmptyService]))).toEqual({
+      services: [
+        {
+          groupName: 'empty',
+          className: 'EmptyService',
+          methods: [],
+          events: [],
+        },
+      ],
+      channels: [],
+    })
+  })
+
+  it('should describe services without unclonable options', () => {
+    const services = createServices([AppService, AdminService])
+    const description = describeServices(getServiceManifest(services))
+
+    expect(description).toEqual([
+      {
+        groupName: 'app',
+        methods: [
+          {
+            name: 'getVersion',
+            channel: 'app.getVersion',
+            deprecated: undefined,
+            idempotent: undefined,
+            cache: { ttl: 60_000 },
+            input: undefined,
+            output: undefined,
+            restricted: false,
+          },
+          {
+            name: 'switchLocale',
+            channel: 'app.switchLocale',
+            deprecated: 'Use app.setLocale',
+            idempotent: undefined,
+            cache: undefined,
+            input: 'test',
+            output: undefined,
+            restricted: false,
+          },
+        ],
+        events: ['updated'],
+      },
+      {
+        groupName: 'admin',
+        methods: [
+          {
+            name: 'reset',
+            channel: 'admin.reset',
+            deprecated: undefined,
+            idempotent: undefined,
+            cache: undefined,
+            input: undefined,
+            output: 'test',
+            restricted: true,
+          },
+        ],
+        events: [],
+      },
+    ])
+    expect(structuredClone(description)).toEqual(description)
+  })
+
+  it('should expose the description as __meta.describe', async () => {
+    const services = createServices([AdminService])
+
+    exposeServiceManifest(services)
+
+    const [channel, handler] = (ipcMain.handle as any).mock.calls.at(-1)
+    expect(channel).toBe('__meta.describe')
+    await expect(handler({ sender: { once: vi.fn() } })).resolves.toEqual(
+      describeServices(getServiceManifest(services)),
+    )
+  })
+})
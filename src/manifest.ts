@@ -0,0 +1,127 @@
+import {
+  getMethodMetadata,
+  IpcEvent,
+  IpcHandler,
+  type IpcMethodOptions,
+  type IpcService,
+} from './base'
+import type { IpcMiddleware } from './middleware'
+import type { IpcSenderPolicy } from './policy'
+
+export interface IpcMethodManifest {
+  name: string
+  channel: string
+  // Options passed to @IpcMethod
+  options: IpcMethodOptions
+  // Sender policies checked before the method runs, service ones first
+  policies: IpcSenderPolicy[]
+  // Middleware running around the method, service ones first
+  middleware: IpcMiddleware[]
+}
+
+export interface IpcServiceManifest {
+  groupName: string
+  className: string
+  methods: IpcMethodManifest[]
+  // Names of the events declared with defineEvent
+  events: string[]
+}
+
+export interface IpcManifest {
+  services: IpcServiceManifest[]
+  // Channels of every method, e.g. for a preload allowlist
+  channels: string[]
+}
+
+// Describe the groups, methods, events and options of the services returned
+// by createServices
+export function getServiceManifest(services: object): IpcManifest {
+  const manifests = (Object.values(services) as IpcService[]).map((service) => {
+    const constructor = service.constructor as typeof IpcService
+    const { groupName, policy, middleware = [] } = constructor
+
+    const methods = [...getMethodMetadata(constructor)]
+      .filter(([name]) => typeof (service as any)[name] === 'function')
+      .map(([name, options]) => ({
+        name,
+        channel: `${groupName}.${name}`,
+        options,
+        policies: [policy ?? [], options.allow ?? []].flat(),
+        middleware: [...middleware, ...(options.middleware ?? [])],
+      }))
+
+    return {
+      groupName,
+      className: constructor.name,
+      methods,
+      events: Object.keys(service).filter(
+        (key) => (service as any)[key] instanceof IpcEvent,
+      ),
+    }
+  })
+
+  return {
+    services: manifests,
+    channels: manifests.flatMap(({ methods }) =>
+      methods.map(({ channel }) => channel),
+    ),
+  }
+}
+
+// Description of a method that can be sent over IPC
+export interface IpcMethodDescription {
+  name: string
+  channel: string
+  deprecated?: boolean | string
+  idempotent?: boolean
+  // Time the client keeps results (in ms)
+  cache?: { ttl: number }
+  // Vendors of the schemas validating the method, e.g. 'zod'
+  input?: string
+  output?: string
+  // Whether sender policies restrict who may call the method
+  restricted: boolean
+}
+
+export interface IpcServiceDescription {
+  groupName: string
+  methods: IpcMethodDescription[]
+  events: string[]
+}
+
+// Manifest without schemas, policies and middleware, which cannot be cloned
+export function describeServices(
+  manifest: IpcManifest,
+): IpcServiceDescription[] {
+  return manifest.services.map(({ groupName, methods, events }) => ({
+    groupName,
+    methods: methods.map(({ name, channel, options, policies }) => ({
+      name,
+      channel,
+      deprecated: options.deprecated,
+      idempotent: options.idempotent,
+      cache: options.cache,
+      input: options.input?.['~standard'].vendor,
+      output: options.output?.['~standard'].vendor,
+      restricted: policies.length > 0,
+    })),
+    events,
+  }))
+}
+
+// Client shape of the built-in `__meta` group
+export type IpcMetaService = {
+  __meta: {
+    describe: () => Promise<IpcServiceDescription[]>
+  }
+}
+
+// Serve the description of the services as the `__meta.describe` IPC method,
+// e.g. for devtools panels
+export function exposeServiceManifest(
+  services: object,
+  handler = IpcHandler.getInstance(),
+) {
+  const description = describeServices(getServiceManifest(services))
+  handler.registerMethod('__meta.describe', () => description)
+}
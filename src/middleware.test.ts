@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { IpcContext } from './base'
+import { runMiddleware, type IpcMiddleware } from './middleware'
+
+const createContext = (args: any[] = []) => ({
+  channel: 'app.test',
+  args,
+  context: {} as IpcContext,
+})
+
+describe('runMiddleware', () => {
+  it('should call the handler without middleware', async () => {
+    const handler = vi.fn().mockResolvedValue('result')
+
+    await expect(runMiddleware([], createContext(), handler)).resolves.toBe(
+      'result',
+    )
+  })
+
+  it('should run middleware in order around the handler', async () => {
+    const calls: string[] = []
+    const track =
+      (name: string): IpcMiddleware =>
+      async (_, next) => {
+        calls.push(`${name}:before`)
+        const result = await next()
+        calls.push(`${name}:after`)
+        return result
+      }
+
+    await runMiddleware([track('a'), track('b')], createContext(), async () => {
+      calls.push('handler')
+    })
+
+    expect(calls).toEqual([
+      'a:before',
+      'b:before',
+      'handler',
+      'b:after',
+      'a:after',
+    ])
+  })
+
+  it('should let middleware transform args and results', async () => {
+    const ctx = createContext([1])
+
+    const result = await runMiddleware(
+      [
+        async (ctx, next) => {
+          ctx.args = [ctx.args[0] + 1]
+          return `result: ${await next()}`
+        },
+      ],
+      ctx,
+      async () => ctx.args[0] * 10,
+    )
+
+    expect(result).toBe('result: 20')
+  })
+
+  it('should short-circuit when next is not called', async () => {
+    const handler = vi.fn()
+
+    const result = await runMiddleware(
+      [() => 'cached'],
+      createContext(),
+      handler,
+    )
+
+    expect(result).toBe('cached')
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should propagate errors', async () => {
+    await expect(
+      runMiddleware(
+        [
+          () => {
+            throw new Error('Denied')
+          },
+        ],
+        createContext(),
+        vi.fn(),
+      ),
+    ).rejects.toThrow('Denied')
+  })
+
+  it('should reject when next is called multiple times', async () => {
+    await expect(
+      runMiddleware(
+        [
+          async (_, next) => {
+            await next()
+            await next()
+          },
+        ],
+        createContext(),
+        vi.fn(),
+      ),
+    ).rejects.toThrow('next() called multiple times in app.test')
+  })
+})
@@ -0,0 +1,37 @@
+import type { IpcCallContext } from './base'
+
+// State shared by the middleware chain of a single IPC call
+export interface IpcMiddlewareContext {
+  channel: string
+  // Arguments passed to the method, replace them to transform the input
+  args: any[]
+  context: IpcCallContext
+}
+
+// Koa-style middleware: call `next()` to continue the chain and return the
+// (possibly transformed) result, or return without calling it to short-circuit
+export type IpcMiddleware = (
+  ctx: IpcMiddlewareContext,
+  next: () => Promise<unknown>,
+) => unknown
+
+// Run the middleware chain around the final handler
+export function runMiddleware(
+  middleware: IpcMiddleware[],
+  ctx: IpcMiddlewareContext,
+  handler: () => Promise<unknown>,
+): Promise<unknown> {
+  let lastIndex = -1
+
+  const dispatch = async (index: number): Promise<unknown> => {
+    if (index <= lastIndex) {
+      throw new Error(`next() called multiple times in ${ctx.channel}`)
+    }
+    lastIndex = index
+
+    const current = middleware[index]
+    return current ? current(ctx, () => dispatch(index + 1)) : handler()
+  }
+
+  return dispatch(0)
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { IpcContext } from './base'
+import { IpcForbiddenError } from './errors'
+import { assertSenderAllowed } from './policy'
+
+const createContext = (
+  frame: { origin: string; parent: unknown } | null = {
+    origin: 'https://app.example.com',
+    parent: null,
+  },
+) => {
+  const sender = { id: 1 }
+  return {
+    sender,
+    event: { sender, senderFrame: frame },
+  } as unknown as IpcContext
+}
+
+describe('assertSenderAllowed', () => {
+  it('should allow any sender without policies', async () => {
+    await expect(
+      assertSenderAllowed(createContext(null), 'app.test', []),
+    ).resolves.toBeUndefined()
+  })
+
+  it('should allow matching origins', async () => {
+    await expect(
+      assertSenderAllowed(createContext(), 'app.test', [
+        { origins: ['https://other.example.com', 'https://app.example.com'] },
+      ]),
+    ).resolves.toBeUndefined()
+
+    await expect(
+      assertSenderAllowed(createContext(), 'app.test', [
+        { origins: [/\.example\.com$/] },
+      ]),
+    ).resolves.toBeUndefined()
+  })
+
+  it('should reject other origins', async () => {
+    const error = await assertSenderAllowed(createContext(), 'app.test', [
+      { origins: ['https://other.example.com', /^file:/] },
+    ]).catch((e) => e)
+
+    expect(error).toBeInstanceOf(IpcForbiddenError)
+    expect(error.code).toBe('FORBIDDEN')
+    expect(error.channel).toBe('app.test')
+    expect(error.message).toBe('Sender is not allowed to call app.test')
+  })
+
+  it('should reject frames that are gone', async () => {
+    await expect(
+      assertSenderAllowed(createContext(null), 'app.test', [
+        { mainFrameOnly: true },
+      ]),
+    ).rejects.toBeInstanceOf(IpcForbiddenError)
+  })
+
+  it('should reject calls without a sender', async () => {
+    const check = vi.fn(() => true)
+
+    await expect(
+      assertSenderAllowed(
+        { signal: new AbortController().signal },
+        'app.test',
+        [check],
+      ),
+    ).rejects.toBeInstanceOf(IpcForbiddenError)
+    expect(check).not.toHaveBeenCalled()
+  })
+
+  it('should reject iframes when mainFrameOnly is set', async () => {
+    const iframe = createContext({
+      origin: 'https://app.example.com',
+      parent: {},
+    })
+
+    await expect(
+      assertSenderAllowed(iframe, 'app.test', [{ mainFrameOnly: true }]),
+    ).rejects.toBeInstanceOf(IpcForbiddenError)
+    await expect(
+      assertSenderAllowed(createContext(), 'app.test', [
+        { mainFrameOnly: true },
+      ]),
+    ).resolves.toBeUndefined()
+  })
+
+  it('should check the sender WebContents', async () => {
+    const context = createContext()
+    const webContents = vi.fn((sender: any) => sender.id === 1)
+
+    await expect(
+      assertSenderAllowed(context, 'app.test', [{ webContents }]),
+    ).resolves.toBeUndefined()
+    expect(webContents).toHaveBeenCalledWith(context.sender)
+
+    await expect(
+      assertSenderAllowed(context, 'app.test', [{ webContents: () => false }]),
+    ).rejects.toBeInstanceOf(IpcForbiddenError)
+  })
+
+  it('should support custom checks', async () => {
+    const context = createContext()
+
+    await expect(
+      assertSenderAllowed(context, 'app.test', [async () => true]),
+    ).resolves.toBeUndefined()
+    await expect(
+      assertSenderAllowed(context, 'app.test', [() => false]),
+    ).rejects.toBeInstanceOf(IpcForbiddenError)
+  })
+
+  it('should require every policy to pass', async () => {
+    await expect(
+      assertSenderAllowed(createContext(), 'app.test', [
+        { origins: ['https://app.example.com'] },
+        () => false,
+      ]),
+    ).rejects.toBeInstanceOf(IpcForbiddenError)
+  })
+})
@@ -0,0 +1,72 @@
+import type { WebContents } from 'electron'
+import type { IpcCallContext, IpcContext } from './base'
+import { IpcForbiddenError } from './errors'
+
+// Declarative rules checked against the sender of an IPC call
+export interface IpcSenderRules {
+  // Allowed origins of the sending frame, e.g. 'https://app.example.com'
+  origins?: (string | RegExp)[]
+  // Reject calls made from iframes
+  mainFrameOnly?: boolean
+  // Restrict the WebContents allowed to call
+  webContents?: (webContents: WebContents) => boolean
+}
+
+// Sender policy: declarative rules or a custom check
+export type IpcSenderPolicy =
+  | IpcSenderRules
+  | ((context: IpcContext) => boolean | Promise<boolean>)
+
+async function isSenderAllowed(
+  context: IpcContext,
+  policy: IpcSenderPolicy,
+): Promise<boolean> {
+  if (typeof policy === 'function') {
+    return policy(context)
+  }
+
+  const { origins, mainFrameOnly, webContents } = policy
+  const frame = context.event.senderFrame
+
+  if (origins || mainFrameOnly) {
+    // The frame is gone (navigated or destroyed), so it cannot be verified
+    if (!frame) {
+      return false
+    }
+
+    if (mainFrameOnly && frame.parent) {
+      return false
+    }
+
+    if (
+      origins &&
+      !origins.some((origin) =>
+        typeof origin === 'string'
+          ? origin === frame.origin
+          : origin.test(frame.origin),
+      )
+    ) {
+      return false
+    }
+  }
+
+  return !webContents || webContents(context.sender)
+}
+
+// Reject the call unless every policy allows the sender
+export async function assertSenderAllowed(
+  context: IpcCallContext,
+  channel: string,
+  policies: IpcSenderPolicy[],
+) {
+  for (const policy of policies) {
+    // Calls without a sender, e.g. from the parent of a utility process,
+    // cannot be verified
+    if (
+      !context.sender ||
+      !(await isSenderAllowed(context as IpcContext, policy))
+    ) {
+      throw new IpcForbiddenError(channel)
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { EventEmitter } from 'node:events'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createIpcProxy } from './client'
+import { createPortTransport, createProcessTransport } from './port'
+import type { IpcPortMessage } from './protocol'
+
+type InvokeMessage = Extract<IpcPortMessage, { type: 'invoke' }>
+
+describe('createPortTransport', () => {
+  const channels: MessageChannel[] = []
+
+  // Answer invokes from the other end of the channel with `respond`
+  const createChannel = (respond: (message: InvokeMessage) => unknown) => {
+    const channel = new MessageChannel()
+    channels.push(channel)
+    channel.port2.onmessage = ({ data }) => {
+      const message = data as IpcPortMessage
+      if (message.type === 'invoke') {
+        channel.port2.postMessage({
+          type: 'result',
+          id: message.id,
+          result: respond(message),
+        })
+      }
+    }
+    return channel
+  }
+
+  afterEach(() => {
+    for (const { port1, port2 } of channels.splice(0)) {
+      port1.close()
+      port2.close()
+    }
+  })
+
+  it('should invoke channels over the port', async () => {
+    const { port1 } = createChannel(
+      ({ channel, args }) => `${channel}(${args.join(', ')})`,
+    )
+    const transport = createPortTransport(port1)
+
+    await expect(transport.invoke('app.greet', 'A', 'B')).resolves.toBe(
+      'app.greet(A, B)',
+    )
+    await expect(transport.invoke('app.version')).resolves.toBe('app.version()')
+  })
+
+  it('should work as the transport of the client proxy', async () => {
+    const { port1 } = createChannel(({ args }) => (args[0] as number) * 2)
+    const proxy = createIpcProxy<{
+      math: { double: (value: number) => Promise<number> }
+    }>(createPortTransport(port1))
+
+    await expect(proxy!.math.double(21)).resolves.toBe(42)
+  })
+
+  it('should transfer objects passed with the call', async () => {
+    const { port1 } = createChannel(
+      ({ args }) => (args[0] as ArrayBuffer).byteLength,
+    )
+    const transport = createPortTransport(port1)
+    const buffer = new ArrayBuffer(8)
+
+    await expect(
+      transport.invokeWithTransfer!([buffer], 'file.write', buffer),
+    ).resolves.toBe(8)
+    expect(buffer.byteLength).toBe(0)
+  })
+
+  it('should dispatch events to listeners', async () => {
+    const { port1, port2 } = createChannel(() => null)
+    const transport = createPortTransport(port1)
+    const listener = vi.fn()
+    const removed = vi.fn()
+
+    transport.on('app.updated', listener)
+    transport.on('app.updated', removed)
+    transport.removeListener('app.updated', removed)
+    transport.removeListener('app.unknown', removed)
+
+    port2.postMessage({ type: 'send', channel: 'app.updated', args: [] })
+    port2.postMessage({ type: 'event', channel: 'app.other', payload: 0 })
+    port2.postMessage({ type: 'event', channel: 'app.updated', payload: 1 })
+
+    await vi.waitFor(() =>
+      expect(listener).toHaveBeenCalledWith(expect.anything(), 1),
+    )
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(removed).not.toHaveBeenCalled()
+  })
+
+  it('should post one-way messages', async () => {
+    const { port1, port2 } = createChannel(() => null)
+    const received = new Promise((resolve) =>
+      port2.addEventListener('message', ({ data }) => resolve(data)),
+    )
+
+    createPortTransport(port1).send('__ipc__.cancel', 'request-1')
+
+    await expect(received).resolves.toEqual({
+      type: 'send',
+      channel: '__ipc__.cancel',
+      args: ['request-1'],
+    })
+  })
+
+  it('should reject calls in flight when closed', async () => {
+    const { port1 } = new MessageChannel()
+    const transport = createPortTransport(port1)
+
+    const call = transport.invoke('app.slow')
+    transport.close()
+
+    await expect(call).rejects.toMatchObject({ code: 'PORT_CLOSED' })
+    await expect(transport.invoke('app.slow')).rejects.toMatchObject({
+      code: 'PORT_CLOSED',
+    })
+    expect(() => transport.send('__ipc__.cancel', 'request-1')).not.toThrow()
+  })
+
+  it('should support MessagePortMain', async () => {
+    const port = Object.assign(new EventEmitter(), {
+      postMessage: vi.fn(),
+      start: vi.fn(),
+      close: vi.fn(),
+    })
+    const transport = createPortTransport(port as any)
+    expect(port.start).toHaveBeenCalled()
+
+    const call = transport.invokeWithTransfer!([], 'app.version')
+    expect(port.postMessage).toHaveBeenCalledWith({
+      type: 'invoke',
+      id: 1,
+      channel: 'app.version',
+      args: [],
+    })
+
+    port.emit('message', { data: { type: 'result', id: 1, result: '1.0.0' } })
+    await expect(call).resolves.toBe('1.0.0')
+
+    const pending = transport.invoke('app.slow')
+    transport.close()
+    expect(port.close).toHaveBeenCalled()
+    await expect(pending).rejects.toMatchObject({ code: 'PORT_CLOSED' })
+  })
+
+  it('should reject calls when a MessagePortMain closes', async () => {
+    const port = Object.assign(new EventEmitter(), {
+      postMessage: vi.fn(),
+      start: vi.fn(),
+    })
+    const transport = createPortTransport(port as any)
+
+    const pending = transport.invoke('app.slow')
+    port.emit('close')
+    await expect(pending).rejects.toMatchObject({ code: 'PORT_CLOSED' })
+  })
+})
+
+describe('createProcessTransport', () => {
+  it('should call a utility process', async () => {
+    const child = Object.assign(new EventEmitter(), { postMessage: vi.fn() })
+    const transport = createProcessTransport(child as any)
+
+    const call = transport.invoke('indexer.index', '/docs')
+    expect(child.postMessage).toHaveBeenCalledWith({
+      type: 'invoke',
+      id: 1,
+      channel: 'indexer.index',
+      args: ['/docs'],
+    })
+
+    child.emit('message', { type: 'result', id: 1, result: 3 })
+    await expect(call).resolves.toBe(3)
+  })
+
+  it('should reject calls when the process exits', async () => {
+    const child = Object.assign(new EventEmitter(), { send: vi.fn() })
+    const transport = createProcessTransport(child as any)
+
+    const call = transport.invoke('indexer.index', '/docs')
+    expect(child.send).toHaveBeenCalled()
+    child.emit('exit', 1)
+
+    await expect(call).rejects.toMatchObject({ code: 'PORT_CLOSED' })
+  })
+
+  it('should stop listening to the process when closed', () => {
+    const child = Object.assign(new EventEmitter(), { send: vi.fn() })
+    const transport = createProcessTransport(child as any)
+
+    transport.close()
+
+    expect(child.listenerCount('message')).toBe(0)
+    expect(child.listenerCount('exit')).toBe(0)
+  })
+})
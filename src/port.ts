@@ -0,0 +1,186 @@
+import type { ChildProcess } from 'node:child_process'
+import type { MessagePortMain, UtilityProcess } from 'electron'
+import { IpcError } from './errors'
+import type { IpcPortMessage } from './protocol'
+
+type IpcTransportListener = (event: unknown, ...args: any[]) => void
+
+// The part of ipcRenderer used by the client proxy
+export interface IpcTransport {
+  invoke(channel: string, ...args: any[]): Promise<any>
+  send(channel: string, ...args: any[]): void
+  // May return a function removing the listener, like the preload bridge
+  on(channel: string, listener: IpcTransportListener): unknown
+  // Not needed when `on` returns a function removing the listener
+  removeListener?(channel: string, listener: IpcTransportListener): unknown
+  // Invoke transferring objects instead of copying them, when supported
+  invokeWithTransfer?(
+    transfer: Transferable[],
+    channel: string,
+    ...args: any[]
+  ): Promise<any>
+}
+
+// Transport over a port served with `IpcHandler.connectPort`
+export interface IpcPortTransport extends IpcTransport {
+  removeListener(channel: string, listener: IpcTransportListener): void
+  // Listen to every event pushed over the port, returns an unsubscribe function
+  onEvent(listener: (channel: string, payload: unknown) => void): () => void
+  // Stop using the port and reject calls still in flight
+  close(): void
+}
+
+// DOM MessagePort in renderers and workers, MessagePortMain in utility processes
+export type IpcPort = MessagePort | MessagePortMain
+
+// Process whose services are served with `serveParentProcess`
+export type IpcChildProcess = UtilityProcess | ChildProcess
+
+// Both ends of the messages exchanged by a transport
+export interface IpcEndpoint {
+  post: (message: IpcPortMessage, transfer: Transferable[]) => void
+  listen: (
+    onMessage: (event: { data: unknown }) => void,
+    onClose: () => void,
+  ) => void
+  close: () => void
+}
+
+// Create a transport for `createIpcProxy` that talks to the main process over
+// a MessagePort instead of ipcRenderer
+export function createPortTransport(port: IpcPort): IpcPortTransport {
+  return createMessageTransport(
+    'addEventListener' in port
+      ? {
+          post: (message, transfer) => port.postMessage(message, transfer),
+          listen: (onMessage, onClose) => {
+            port.addEventListener('message', onMessage)
+            port.addEventListener('close', onClose)
+            port.start()
+          },
+          close: () => port.close(),
+        }
+      : {
+          // MessagePortMain can only transfer other ports
+          post: (message) => port.postMessage(message),
+          listen: (onMessage, onClose) => {
+            port.on('message', onMessage)
+            port.on('close', onClose)
+            port.start()
+          },
+          close: () => port.close(),
+        },
+  )
+}
+
+// Create a transport for `createIpcProxy` that calls the services of a
+// utility process, or of a Node child process, from its parent
+export function createProcessTransport(
+  child: IpcChildProcess,
+): IpcPortTransport {
+  // Both process types are event emitters passing messages as they are
+  const emitter: NodeJS.EventEmitter = child
+  let onMessage: (data: unknown) => void
+  let onExit: () => void
+
+  return createMessageTransport({
+    post: (message) =>
+      'postMessage' in child ? child.postMessage(message) : child.send(message),
+    listen: (handleMessage, handleClose) => {
+      onMessage = (data) => handleMessage({ data })
+      onExit = handleClose
+      emitter.on('message', onMessage)
+      emitter.on('exit', onExit)
+    },
+    close: () => {
+      emitter.off('message', onMessage)
+      emitter.off('exit', onExit)
+    },
+  })
+}
+
+// Transport exchanging the port messages with `endpoint`, e.g. a port or a
+// handler in the same process
+export function createMessageTransport(
+  endpoint: IpcEndpoint,
+): IpcPortTransport {
+  const pending = new Map<
+    number,
+    { resolve: (result: unknown) => void; reject: (error: unknown) => void }
+  >()
+  const listeners = new Map<string, Set<IpcTransportListener>>()
+  const eventListeners = new Set<(channel: string, payload: unknown) => void>()
+  let messageCounter = 0
+  let closed = false
+
+  const onMessage = (event: { data: unknown }) => {
+    const message = event.data as IpcPortMessage
+
+    if (message.type === 'result') {
+      pending.get(message.id)?.resolve(message.result)
+      pending.delete(message.id)
+    } else if (message.type === 'event') {
+      for (const listener of listeners.get(message.channel) ?? []) {
+        listener(event, message.payload)
+      }
+      for (const listener of eventListeners) {
+        listener(message.channel, message.payload)
+      }
+    }
+  }
+
+  const onClose = () => {
+    closed = true
+    for (const { reject } of pending.values()) {
+      reject(new IpcError('The port was closed', { code: 'PORT_CLOSED' }))
+    }
+    pending.clear()
+  }
+
+  const invokeWithTransfer = (
+    transfer: Transferable[],
+    channel: string,
+    ...args: any[]
+  ) => {
+    if (closed) {
+      return Promise.reject(
+        new IpcError('The port was closed', { code: 'PORT_CLOSED' }),
+      )
+    }
+
+    const id = ++messageCounter
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject })
+      endpoint.post({ type: 'invoke', id, channel, args }, transfer)
+    })
+  }
+
+  endpoint.listen(onMessage, onClose)
+
+  return {
+    invoke: (channel, ...args) => invokeWithTransfer([], channel, ...args),
+    invokeWithTransfer,
+    send: (channel, ...args) => {
+      if (!closed) {
+        endpoint.post({ type: 'send', channel, args }, [])
+      }
+    },
+    on: (channel, listener) => {
+      if (!listeners.has(channel)) {
+        listeners.set(channel, new Set())
+      }
+      listeners.get(channel)!.add(listener)
+    },
+    removeListener: (channel, listener) => {
+      listeners.get(channel)?.delete(listener)
+    },
+    onEvent: (listener) => {
+      eventListeners.add(listener)
+      return () => eventListeners.delete(listener)
+    },
+    close: () => {
+      endpoint.close()
+      onClose()
+    },
+  }
+}
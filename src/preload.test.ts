@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createIpcProxy } from './client'
+import { createIpcBridge, exposeIpcServices } from './preload'
+import {
+  IPC_BATCH_CHANNEL,
+  IPC_CACHE_CHANNEL,
+  IPC_CANCEL_CHANNEL,
+  IPC_CHANNELS_CHANNEL,
+  IPC_STREAM_CHANNEL,
+} from './protocol'
+
+const { contextBridge, ipcRenderer } = vi.hoisted(() => ({
+  contextBridge: {
+    exposeInMainWorld: vi.fn(),
+  },
+  ipcRenderer: {
+    invoke: vi.fn(async (channel: string) => `${channel} result`),
+    send: vi.fn(),
+    sendSync: vi.fn(() => ['app.getVersion', 'app.setLocale'] as any),
+    on: vi.fn(),
+    removeListener: vi.fn(),
+  },
+}))
+
+vi.mock('electron', () => ({ contextBridge, ipcRenderer }))
+
+describe('createIpcBridge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should expose the channels registered in the main process', async () => {
+    const bridge = createIpcBridge()
+
+    expect(ipcRenderer.sendSync).toHaveBeenCalledWith(IPC_CHANNELS_CHANNEL)
+    await expect(bridge.invoke('app.getVersion')).resolves.toBe(
+      'app.getVersion result',
+    )
+    await bridge.invoke(IPC_STREAM_CHANNEL, '1', 'next')
+    expect(ipcRenderer.invoke).toHaveBeenCalledWith(
+      IPC_STREAM_CHANNEL,
+      '1',
+      'next',
+    )
+  })
+
+  it('should pull streams of prefixed handlers', async () => {
+    const bridge = createIpcBridge(['editor.logs.tail'])
+
+    await bridge.invoke(`editor.${IPC_STREAM_CHANNEL}`, '1', 'next')
+    expect(ipcRenderer.invoke).toHaveBeenCalledWith(
+      `editor.${IPC_STREAM_CHANNEL}`,
+      '1',
+      'next',
+    )
+  })
+
+  it('should send batches of exposed channels only', async () => {
+    const bridge = createIpcBridge(['editor.app.getVersion'])
+    const batch = `editor.${IPC_BATCH_CHANNEL}`
+
+    await bridge.invoke(batch, [{ channel: 'editor.app.getVersion', args: [] }])
+    await expect(
+      bridge.invoke(batch, [
+        { channel: 'editor.app.getVersion', args: [] },
+        { channel: 'editor.app.reset', args: [] },
+      ]),
+    ).rejects.toThrow(
+      'IPC channel editor.app.reset is not exposed to the renderer',
+    )
+    expect(ipcRenderer.invoke).toHaveBeenCalledExactlyOnceWith(batch, [
+      { channel: 'editor.app.getVersion', args: [] },
+    ])
+  })
+
+  it('should reject channels that are not exposed', async () => {
+    const bridge = createIpcBridge(['app.getVersion'])
+
+    expect(ipcRenderer.sendSync).not.toHaveBeenCalled()
+    await expect(bridge.invoke('app.setLocale', 'en')).rejects.toThrow(
+      'IPC channel app.setLocale is not exposed to the renderer',
+    )
+    expect(() => bridge.send('app.getVersion')).toThrow(
+      'IPC channel app.getVersion is not exposed to the renderer',
+    )
+    expect(() => bridge.on('other.updated', vi.fn())).toThrow(
+      'IPC channel other.updated is not exposed to the renderer',
+    )
+    expect(ipcRenderer.invoke).not.toHaveBeenCalled()
+  })
+
+  it('should expose nothing when no service is registered', async () => {
+    ipcRenderer.sendSync.mockReturnValueOnce(null)
+    const bridge = createIpcBridge()
+
+    await expect(bridge.invoke('app.getVersion')).rejects.toThrow(
+      'is not exposed',
+    )
+  })
+
+  it('should send cancellations', () => {
+    createIpcBridge().send(IPC_CANCEL_CHANNEL, 'request-1')
+
+    expect(ipcRenderer.send).toHaveBeenCalledWith(
+      IPC_CANCEL_CHANNEL,
+      'request-1',
+    )
+  })
+
+  it('should subscribe to events without leaking the IPC event', () => {
+    const listener = vi.fn()
+    const off = createIpcBridge().on('app.updated', listener)
+
+    const [channel, wrapped] = ipcRenderer.on.mock.calls[0] as any[]
+    expect(channel).toBe('app.updated')
+    wrapped({ sender: ipcRenderer }, { version: '2.0.0' })
+    expect(listener).toHaveBeenCalledWith(null, { version: '2.0.0' })
+
+    off()
+    expect(ipcRenderer.removeListener).toHaveBeenCalledWith(
+      'app.updated',
+      wrapped,
+    )
+  })
+
+  it('should listen for cache invalidations of prefixed handlers', () => {
+    const bridge = createIpcBridge(['editor.app.getVersion'])
+
+    bridge.on(`editor.${IPC_CACHE_CHANNEL}`, vi.fn())
+
+    expect(ipcRenderer.on).toHaveBeenCalledWith(
+      `editor.${IPC_CACHE_CHANNEL}`,
+      expect.any(Function),
+    )
+  })
+
+  it('should be usable by the client proxy', async () => {
+    const proxy = createIpcProxy<{
+      app: {
+        getVersion: () => Promise<string>
+        on: (event: 'updated', listener: () => void) => () => void
+      }
+    }>(createIpcBridge())!
+
+    await expect(proxy.app.getVersion()).resolves.toBe('app.getVersion result')
+
+    const off = proxy.app.on('updated', vi.fn())
+    off()
+    expect(ipcRenderer.removeListener).toHaveBeenCalledWith(
+      'app.updated',
+      ipcRenderer.on.mock.calls[0][1],
+    )
+  })
+})
+
+describe('exposeIpcServices', () => {
+  it('should expose the bridge in the main world', () => {
+    exposeIpcServices()
+    exposeIpcServices('services', ['app.getVersion'])
+
+    expect(contextBridge.exposeInMainWorld).toHaveBeenCalledWith('ipc', {
+      invoke: expect.any(Function),
+      send: expect.any(Function),
+      on: expect.any(Function),
+    })
+    expect(contextBridge.exposeInMainWorld).toHaveBeenCalledWith(
+      'services',
+      expect.any(Object),
+    )
+  })
+})
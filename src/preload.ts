@@ -0,0 +1,89 @@
+import type { IpcRendererEvent } from 'electron'
+import { contextBridge, ipcRenderer } from 'electron'
+import {
+  IPC_BATCH_CHANNEL,
+  IPC_CACHE_CHANNEL,
+  IPC_CANCEL_CHANNEL,
+  IPC_CHANNELS_CHANNEL,
+  IPC_STREAM_CHANNEL,
+  type IpcBatchCall,
+} from './protocol'
+
+// Narrow IPC API exposed to the page, passed to `createIpcProxy`
+export interface IpcBridge {
+  invoke(channel: string, ...args: any[]): Promise<any>
+  send(channel: string, ...args: any[]): void
+  // Returns a function removing the listener, since functions passed through
+  // the context bridge lose their identity
+  on(
+    channel: string,
+    listener: (event: null, payload: unknown) => void,
+  ): () => void
+}
+
+const getGroupName = (channel: string) =>
+  channel.slice(0, channel.lastIndexOf('.'))
+
+// Handlers with a prefix answer internal channels on a prefixed channel
+const isInternalChannel = (channel: string, internal: string) =>
+  channel === internal || channel.endsWith(`.${internal}`)
+
+// Create a bridge restricted to the given channels, by default the channels
+// of every method registered in the main process when the preload runs
+export function createIpcBridge(
+  // Electron returns null when no service is registered yet
+  allowedChannels: string[] = ipcRenderer.sendSync(IPC_CHANNELS_CHANNEL) ?? [],
+): IpcBridge {
+  const channels = new Set(allowedChannels)
+  // Events are emitted on `group.event` channels of the exposed services
+  const groups = new Set(allowedChannels.map(getGroupName))
+
+  const assertExposed = (exposed: boolean, channel: string) => {
+    if (!exposed) {
+      throw new Error(`IPC channel ${channel} is not exposed to the renderer`)
+    }
+  }
+
+  return {
+    invoke: async (channel, ...args) => {
+      if (isInternalChannel(channel, IPC_BATCH_CHANNEL)) {
+        // Every call of a batch must be exposed on its own
+        const calls: IpcBatchCall[] = args[0]
+        for (const call of calls) {
+          assertExposed(channels.has(call.channel), call.channel)
+        }
+      } else {
+        assertExposed(
+          channels.has(channel) ||
+            isInternalChannel(channel, IPC_STREAM_CHANNEL),
+          channel,
+        )
+      }
+      return ipcRenderer.invoke(channel, ...args)
+    },
+    send: (channel, ...args) => {
+      assertExposed(channel === IPC_CANCEL_CHANNEL, channel)
+      ipcRenderer.send(channel, ...args)
+    },
+    on: (channel, listener) => {
+      assertExposed(
+        groups.has(getGroupName(channel)) ||
+          isInternalChannel(channel, IPC_CACHE_CHANNEL),
+        channel,
+      )
+      // The event gives access to ipcRenderer, so it is never passed on
+      const wrapped = (_event: IpcRendererEvent, payload: unknown) =>
+        listener(null, payload)
+      ipcRenderer.on(channel, wrapped)
+      return () => {
+        ipcRenderer.removeListener(channel, wrapped)
+      }
+    },
+  }
+}
+
+// Expose the bridge to the page as `window[key]`, to be used instead of
+// exposing ipcRenderer itself
+export function exposeIpcServices(key = 'ipc', allowedChannels?: string[]) {
+  contextBridge.exposeInMainWorld(key, createIpcBridge(allowedChannels))
+}
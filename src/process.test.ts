@@ -0,0 +1,254 @@
+import { EventEmitter } from 'node:events'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createServices,
+  getIpcCallContext,
+  getIpcContext,
+  IpcHandler,
+  IpcMethod,
+  IpcService,
+} from './base'
+import { createIpcProxy, type IpcClient } from './client'
+import type { IpcMiddlewareContext } from './middleware'
+import { createProcessTransport, type IpcPortTransport } from './port'
+import { relayServices, serveParentProcess } from './process'
+
+// Utility processes have no ipcMain nor webContents
+vi.mock('./electron', () => ({ getElectron: () => ({}) }))
+
+// Both ends of the IPC channel of a Node child process
+const createProcessPair = () => {
+  const child = Object.assign(new EventEmitter(), {
+    send: (message: unknown) =>
+      setImmediate(() =>
+        parentPort.emit('message', { data: structuredClone(message) }),
+      ),
+  })
+  const parentPort = Object.assign(new EventEmitter(), {
+    postMessage: (message: unknown) =>
+      setImmediate(() => child.emit('message', structuredClone(message))),
+  })
+  return { child, parentPort }
+}
+
+class IndexerService extends IpcService {
+  static readonly groupName = 'indexer'
+
+  readonly indexed = this.defineEvent<{ files: number }>()
+  signal?: AbortSignal
+
+  @IpcMethod()
+  index(root: string) {
+    this.indexed.emit({ files: 3 })
+    return `${root}: 3 files`
+  }
+
+  @IpcMethod()
+  whoami() {
+    return getIpcContext().sender
+  }
+
+  @IpcMethod()
+  wait() {
+    const { signal } = getIpcCallContext()
+    this.signal = signal
+    return new Promise((_, reject) =>
+      signal.addEventListener('abort', () => reject(signal.reason)),
+    )
+  }
+
+  @IpcMethod()
+  async *scan() {
+    yield 'a.txt'
+    yield 'b.txt'
+  }
+}
+
+type Services = {
+  indexer: {
+    index: (root: string) => Promise<string>
+    whoami: () => Promise<unknown>
+    wait: () => Promise<void>
+    scan: () => AsyncIterable<string>
+  }
+}
+
+describe('utility process services', () => {
+  let services: { indexer: IndexerService }
+  let transport: IpcPortTransport
+  let parentPort: ReturnType<typeof createProcessPair>['parentPort']
+
+  beforeEach(() => {
+    ;(IpcHandler as any).instance = undefined
+    const pair = createProcessPair()
+    parentPort = pair.parentPort
+    process.parentPort = parentPort as any
+
+    services = createServices([IndexerService])
+    serveParentProcess()
+    transport = createProcessTransport(pair.child as any)
+  })
+
+  afterEach(() => {
+    delete (process as any).parentPort
+    vi.restoreAllMocks()
+  })
+
+  it('should call services of the child process', async () => {
+    const client = createIpcProxy<Services>(transport)!
+
+    await expect(client.indexer.index('/docs')).resolves.toBe('/docs: 3 files')
+  })
+
+  it('should push events to the parent', async () => {
+    const client = createIpcProxy<Services>(transport)!
+    const listener = vi.fn()
+    transport.on('indexer.indexed', listener)
+
+    await client.indexer.index('/docs')
+
+    await vi.waitFor(() =>
+      expect(listener).toHaveBeenCalledWith(expect.anything(), { files: 3 }),
+    )
+  })
+
+  it('should not expose error stacks outside an Electron app', () => {
+    expect(new IpcHandler().exposeErrorStack).toBe(false)
+  })
+
+  it('should not provide a sender to calls from the parent', async () => {
+    const client = createIpcProxy<Services>(transport)!
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(client.indexer.whoami()).rejects.toThrow(
+      'IPC call has no sender',
+    )
+  })
+
+  describe('relayServices', () => {
+    let handler: IpcHandler
+    let rendererTransport: IpcPortTransport
+    let renderer: IpcClient<Services>
+
+    beforeEach(() => {
+      // Renderers reach the relaying process over a port
+      const pair = createProcessPair()
+      handler = new IpcHandler()
+      handler.connectPort(pair.parentPort)
+      rendererTransport = createProcessTransport(pair.child as any)
+      renderer = createIpcProxy<Services>(rendererTransport)!
+    })
+
+    it('should register the methods of the child process', async () => {
+      await relayServices(transport, { handler })
+
+      expect(handler.getChannels()).toEqual([
+        'indexer.index',
+        'indexer.whoami',
+        'indexer.wait',
+        'indexer.scan',
+      ])
+      await expect(renderer.indexer.index('/docs')).resolves.toBe(
+        '/docs: 3 files',
+      )
+    })
+
+    it('should apply the sender policies and middleware of the relay', async () => {
+      const middleware = vi.fn((_ctx: IpcMiddlewareContext, next) => next())
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      await relayServices(transport, { handler, middleware: [middleware] })
+      await expect(renderer.indexer.index('/docs')).resolves.toBe(
+        '/docs: 3 files',
+      )
+      expect(middleware).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'indexer.index', args: ['/docs'] }),
+        expect.any(Function),
+      )
+
+      handler.onConflict = 'replace'
+      await relayServices(transport, { handler, allow: () => true })
+      // Calls over a port have no sender to verify
+      await expect(renderer.indexer.index('/docs')).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+      })
+    })
+
+    it('should broadcast events of the child process', async () => {
+      const listener = vi.fn()
+      rendererTransport.on('indexer.indexed', listener)
+
+      const stop = await relayServices(transport, { handler })
+      services.indexer.indexed.emit({ files: 1 })
+      await vi.waitFor(() =>
+        expect(listener).toHaveBeenCalledWith(expect.anything(), { files: 1 }),
+      )
+
+      stop()
+      services.indexer.indexed.emit({ files: 2 })
+      await renderer.indexer.index('/docs')
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    it('should relay streams', async () => {
+      await relayServices(transport, { handler })
+
+      const chunks: string[] = []
+      for await (const chunk of renderer.indexer.scan()) {
+        chunks.push(chunk)
+      }
+      expect(chunks).toEqual(['a.txt', 'b.txt'])
+    })
+
+    it('should cancel relayed calls in the child process', async () => {
+      await relayServices(transport, { handler })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const controller = new AbortController()
+      const call = renderer.indexer.wait.withOptions({
+        signal: controller.signal,
+      })()
+      await vi.waitFor(() => expect(services.indexer.signal).toBeDefined())
+      controller.abort()
+
+      await expect(call).rejects.toThrow()
+      await vi.waitFor(() =>
+        expect(services.indexer.signal!.aborted).toBe(true),
+      )
+    })
+  })
+
+  describe('serveParentProcess', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should serve the IPC channel of Node child processes', () => {
+      const child = Object.assign(new EventEmitter(), { send: vi.fn() })
+      const connectPort = vi.fn()
+      const onMessage = vi.fn()
+      const onClose = vi.fn()
+
+      vi.stubGlobal('process', child)
+      serveParentProcess({ connectPort } as any)
+      const [port] = connectPort.mock.calls[0]
+      port.on('message', onMessage)
+      port.on('close', onClose)
+      child.emit('message', 'request')
+      child.emit('disconnect')
+      port.postMessage('response')
+      vi.unstubAllGlobals()
+
+      expect(onMessage).toHaveBeenCalledWith({ data: 'request' })
+      expect(onClose).toHaveBeenCalled()
+      expect(child.send).toHaveBeenCalledWith('response')
+    })
+
+    it('should throw without a channel to the parent', () => {
+      vi.stubGlobal('process', new EventEmitter())
+      expect(() => serveParentProcess()).toThrow(
+        'serveParentProcess() must be called in a utility process',
+      )
+    })
+  })
+})
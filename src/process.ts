@@ -0,0 +1,71 @@
+import {
+  getIpcCallContext,
+  IpcHandler,
+  type IpcMethodOptions,
+  type IpcServedPort,
+} from './base'
+import { createIpcProxy } from './client'
+import type { IpcPortTransport } from './port'
+import { IPC_CHANNELS_CHANNEL } from './protocol'
+
+// Serve the services created in a utility process to its parent, which calls
+// them through `createProcessTransport`. Node child processes are supported
+// too, e.g. to test services without Electron
+export function serveParentProcess(handler = IpcHandler.getInstance()) {
+  if (process.parentPort) {
+    handler.connectPort(process.parentPort)
+    return
+  }
+
+  if (!process.send) {
+    throw new Error(
+      'serveParentProcess() must be called in a utility process or a child process with an IPC channel',
+    )
+  }
+
+  const port: IpcServedPort = {
+    on: (event, listener) =>
+      event === 'message'
+        ? process.on('message', (data) => listener({ data }))
+        : process.on('disconnect', listener),
+    postMessage: (message) => process.send!(message),
+  }
+  handler.connectPort(port)
+}
+
+export interface RelayServicesOptions
+  extends Pick<IpcMethodOptions, 'allow' | 'middleware' | 'timeout'> {
+  // Handler registering the methods, IpcHandler.getInstance() by default
+  handler?: IpcHandler
+}
+
+// Register the methods served by a child process in this process, so that
+// renderers call them like methods of the main process, with the sender
+// policies, middleware and timeout of `options`. Events emitted by the child
+// are broadcast to every renderer. Returns a function stopping the relay of
+// events
+export async function relayServices(
+  transport: IpcPortTransport,
+  { handler = IpcHandler.getInstance(), ...options }: RelayServicesOptions = {},
+): Promise<() => void> {
+  const client = createIpcProxy<any>(transport)!
+  const channels: string[] = await transport.invoke(IPC_CHANNELS_CHANNEL)
+
+  for (const channel of channels) {
+    const separator = channel.lastIndexOf('.')
+    const method =
+      client[channel.slice(0, separator)][channel.slice(separator + 1)]
+
+    // Cancelling the relayed call cancels it in the child process too
+    handler.registerMethod(
+      channel,
+      (...args: any[]) =>
+        method.withOptions({ signal: getIpcCallContext().signal })(...args),
+      options,
+    )
+  }
+
+  return transport.onEvent((channel, payload) =>
+    handler.broadcast(channel, payload),
+  )
+}
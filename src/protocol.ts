@@ -0,0 +1,109 @@
+// Wire format shared by the main process and the client proxy
+
+// Error returned by a handler in place of its result
+export interface SerializedIpcError {
+  name: string
+  message: string
+  code?: string
+  data?: unknown
+  stack?: string
+  cause?: SerializedIpcError
+}
+
+// Key marking a handler failure sent back in place of the result
+export const IPC_ERROR_KEY = '__ipc_error__'
+
+export interface IpcErrorEnvelope {
+  [IPC_ERROR_KEY]: SerializedIpcError
+}
+
+export function isIpcErrorEnvelope(value: unknown): value is IpcErrorEnvelope {
+  return typeof value === 'object' && value !== null && IPC_ERROR_KEY in value
+}
+
+// Key marking a stream returned in place of the result
+export const IPC_STREAM_KEY = '__ipc_stream__'
+
+// Channel used by the client to pull chunks from a stream
+export const IPC_STREAM_CHANNEL = '__ipc__.stream'
+
+export interface IpcStreamEnvelope {
+  [IPC_STREAM_KEY]: string
+}
+
+export type IpcStreamAction = 'next' | 'return'
+
+export function isIpcStreamEnvelope(
+  value: unknown,
+): value is IpcStreamEnvelope {
+  return typeof value === 'object' && value !== null && IPC_STREAM_KEY in value
+}
+
+// Key marking a value encoded by a codec of the serializer
+export const IPC_CODEC_KEY = '__ipc_codec__'
+
+export interface IpcCodecEnvelope {
+  [IPC_CODEC_KEY]: string
+  value: unknown
+}
+
+// Channel used by the client to send several calls in one message
+export const IPC_BATCH_CHANNEL = '__ipc__.batch'
+
+// Call sent in a batch, answered with the result of its method in the same
+// position
+export interface IpcBatchCall {
+  channel: string
+  args: unknown[]
+}
+
+// Event telling clients to drop the results they cached for the listed
+// channels, or for every channel when none is listed
+export const IPC_CACHE_CHANNEL = '__ipc__.cache'
+
+// Channel listing the registered methods, answered by connected ports
+export const IPC_CHANNELS_CHANNEL = '__ipc__.channels'
+
+// Metadata appended as the last argument of an invoke
+export interface IpcCallMeta {
+  // Identifies the call for cancellation
+  requestId?: string
+  // Time limit set by the caller (in ms), which may shorten the method's
+  timeout?: number
+}
+
+// Key marking the metadata argument
+export const IPC_CALL_META_KEY = '__ipc_call__'
+
+// Channel used by the client to cancel an in-flight call
+export const IPC_CANCEL_CHANNEL = '__ipc__.cancel'
+
+export function appendCallMeta(args: unknown[], meta: IpcCallMeta): unknown[] {
+  return [...args, { [IPC_CALL_META_KEY]: meta }]
+}
+
+// Split the metadata argument, if any, from the method arguments
+export function splitCallMeta(args: unknown[]): {
+  args: unknown[]
+  meta: IpcCallMeta
+} {
+  const last = args.at(-1)
+  if (typeof last === 'object' && last !== null && IPC_CALL_META_KEY in last) {
+    return {
+      args: args.slice(0, -1),
+      meta: (last as { [IPC_CALL_META_KEY]: IpcCallMeta })[IPC_CALL_META_KEY],
+    }
+  }
+  return { args, meta: {} }
+}
+
+// Messages exchanged with the main process over a MessagePort
+export type IpcPortMessage =
+  // Client to main: call a channel and wait for the result
+  | { type: 'invoke'; id: number; channel: string; args: unknown[] }
+  // Client to main: one-way message, e.g. a cancellation
+  | { type: 'send'; channel: string; args: unknown[] }
+  // Main to client: result of an invoke
+  | { type: 'result'; id: number; result: unknown }
+  // Main to client: event pushed by a service
+  | { type: 'event'; channel: string; payload: unknown }
@@ -0,0 +1,170 @@
+import { EventEmitter } from 'node:events'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createServices,
+  getIpcContext,
+  IpcHandler,
+  IpcMethod,
+  IpcService,
+} from './base'
+import { IPC_STREAM_CHANNEL, IPC_STREAM_KEY } from './protocol'
+import { createScopedServices } from './scoped'
+
+const { ipcMain, otherWindow } = vi.hoisted(() => ({
+  ipcMain: {
+    handle: vi.fn(),
+    removeHandler: vi.fn(),
+    on: vi.fn(),
+  },
+  otherWindow: { send: vi.fn() },
+}))
+
+vi.mock('./electron', () => ({
+  getElectron: () => ({
+    ipcMain,
+    webContents: { getAllWebContents: () => [otherWindow] },
+  }),
+}))
+
+// WebContents with its own IPC target, destroyed with `emit('destroyed')`
+const createWindow = () =>
+  Object.assign(new EventEmitter(), {
+    send: vi.fn(),
+    mainFrame: {},
+    ipc: {
+      handle: vi.fn(),
+      removeHandler: vi.fn(),
+      on: vi.fn(),
+    },
+  })
+
+type MockWindow = ReturnType<typeof createWindow>
+
+const getHandle = (target: MockWindow['ipc'], channel: string) =>
+  target.handle.mock.calls.find(([registered]) => registered === channel)![1]
+
+const disposed = vi.fn()
+
+class DocumentService extends IpcService {
+  static readonly groupName = 'document'
+
+  readonly saved = this.defineEvent<string>()
+  private title = 'Untitled'
+
+  @IpcMethod()
+  rename(title: string) {
+    this.title = title
+    this.saved.emit(title)
+    return getIpcContext().sender
+  }
+
+  @IpcMethod()
+  getTitle() {
+    return this.title
+  }
+
+  protected onDispose() {
+    disposed(this.title)
+  }
+}
+
+describe('createScopedServices', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(IpcHandler as any).instance = undefined
+  })
+
+  it('should register methods on the window only', async () => {
+    const window = createWindow()
+    const services = createScopedServices(window as any, [DocumentService])
+
+    expect(services.document).toBeInstanceOf(DocumentService)
+    expect(ipcMain.handle).not.toHaveBeenCalled()
+    await expect(
+      getHandle(window.ipc, 'document.rename')({ sender: window }, 'Notes'),
+    ).resolves.toBe(window)
+    expect(window.send).toHaveBeenCalledWith('document.saved', 'Notes')
+    expect(otherWindow.send).not.toHaveBeenCalled()
+  })
+
+  it('should keep state per window', async () => {
+    const first = createWindow()
+    const second = createWindow()
+    createScopedServices(first as any, [DocumentService])
+    createScopedServices(second as any, [DocumentService])
+
+    await getHandle(first.ipc, 'document.rename')({ sender: first }, 'Notes')
+
+    await expect(
+      getHandle(second.ipc, 'document.getTitle')({ sender: second }),
+    ).resolves.toBe('Untitled')
+  })
+
+  it('should dispose the services when the window is destroyed', async () => {
+    const window = createWindow()
+    createScopedServices(window as any, [DocumentService])
+
+    window.emit('destroyed')
+
+    await vi.waitFor(() => expect(disposed).toHaveBeenCalledWith('Untitled'))
+    expect(window.ipc.removeHandler).toHaveBeenCalledWith('document.rename')
+    expect(window.ipc.removeHandler).toHaveBeenCalledWith('document.getTitle')
+  })
+
+  it('should log services failing to dispose', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    class FailingService extends IpcService {
+      static readonly groupName = 'failing'
+
+      protected onDispose() {
+        throw new Error('Failed to save')
+      }
+    }
+    const window = createWindow()
+    createScopedServices(window as any, [FailingService])
+
+    window.emit('destroyed')
+
+    await vi.waitFor(() =>
+      expect(error).toHaveBeenCalledWith(
+        'Error disposing IPC services of a destroyed window:',
+        expect.any(AggregateError),
+      ),
+    )
+    error.mockRestore()
+  })
+
+  it('should pull streams of global services through the window', async () => {
+    class LogService extends IpcService {
+      static readonly groupName = 'logs'
+
+      @IpcMethod()
+      async *tail() {
+        yield 'started'
+      }
+    }
+    class HistoryService extends IpcService {
+      static readonly groupName = 'history'
+
+      @IpcMethod()
+      async *list() {}
+    }
+    createServices([LogService])
+    const window = createWindow()
+    createScopedServices(window as any, [HistoryService])
+    await getHandle(window.ipc, 'history.list')({ sender: window })
+
+    // Once a window has a stream handler, it receives every pull of the window
+    const tail = ipcMain.handle.mock.calls.find(
+      ([channel]) => channel === 'logs.tail',
+    )![1]
+    const envelope = await tail({ sender: window })
+    await expect(
+      getHandle(window.ipc, IPC_STREAM_CHANNEL)(
+        { sender: window },
+        envelope[IPC_STREAM_KEY],
+        'next',
+      ),
+    ).resolves.toEqual({ done: false, value: 'started' })
+  })
+})
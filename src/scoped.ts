@@ -0,0 +1,32 @@
+import type { WebContents } from 'electron'
+import {
+  createServices,
+  IpcHandler,
+  type CreateServicesOptions,
+  type IpcServiceConstructor,
+} from './base'
+
+// Create services for a single window. Their methods are registered on
+// `webContents.ipc`, so only that window can call them, their events are only
+// sent to it, and they are disposed when it is destroyed
+export function createScopedServices<
+  T extends readonly IpcServiceConstructor[],
+>(
+  webContents: WebContents,
+  serviceConstructors: T,
+  options: Omit<CreateServicesOptions, 'handler'> = {},
+) {
+  const handler = new IpcHandler({ target: webContents.ipc, webContents })
+  const services = createServices(serviceConstructors, { ...options, handler })
+
+  webContents.once('destroyed', () => {
+    services.dispose().catch((error) => {
+      console.error(
+        'Error disposing IPC services of a destroyed window:',
+        error,
+      )
+    })
+  })
+
+  return services
+}
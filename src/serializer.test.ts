@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import { IPC_CODEC_KEY } from './protocol'
+import { createSerializer, defineCodec } from './serializer'
+
+class Money {
+  constructor(
+    readonly amount: bigint,
+    readonly currency: string,
+  ) {}
+
+  format() {
+    return `${this.amount} ${this.currency}`
+  }
+}
+
+class Invoice {
+  constructor(readonly total: Money) {}
+}
+
+const moneyCodec = defineCodec({
+  name: 'money',
+  test: (value): value is Money => value instanceof Money,
+  encode: ({ amount, currency }) => ({ amount, currency }),
+  decode: ({ amount, currency }) => new Money(amount, currency),
+})
+
+const invoiceCodec = defineCodec({
+  name: 'invoice',
+  test: (value): value is Invoice => value instanceof Invoice,
+  encode: (invoice) => invoice.total,
+  decode: (total: Money) => new Invoice(total),
+})
+
+describe('createSerializer', () => {
+  const serializer = createSerializer({ codecs: [moneyCodec, invoiceCodec] })
+
+  it('should tag values handled by a codec', () => {
+    expect(serializer.serialize(new Money(5n, 'EUR'))).toEqual({
+      [IPC_CODEC_KEY]: 'money',
+      value: { amount: 5n, currency: 'EUR' },
+    })
+  })
+
+  it('should restore nested values', () => {
+    const value = {
+      prices: [new Money(1n, 'EUR')],
+      byId: new Map([['a', new Money(2n, 'USD')]]),
+      set: new Set([new Money(3n, 'GBP')]),
+      invoice: new Invoice(new Money(4n, 'EUR')),
+    }
+
+    const restored: any = serializer.deserialize(
+      structuredClone(serializer.serialize(value)),
+    )
+
+    expect(restored).toEqual(value)
+    expect(restored.prices[0]).toBeInstanceOf(Money)
+    expect(restored.byId.get('a').format()).toBe('2 USD')
+    expect([...restored.set][0]).toBeInstanceOf(Money)
+    expect(restored.invoice.total).toBeInstanceOf(Money)
+  })
+
+  it('should keep cyclic and shared references', () => {
+    const price = new Money(1n, 'EUR')
+    const shared = { price }
+    const value: any = {
+      items: [shared, shared],
+      byId: new Map(),
+      set: new Set(),
+    }
+    value.self = value
+    value.items.push(value.items)
+    value.byId.set('root', value)
+    value.set.add(value.set)
+
+    const restored: any = serializer.deserialize(
+      structuredClone(serializer.serialize(value)),
+    )
+
+    expect(restored.self).toBe(restored)
+    expect(restored.items[0]).toBe(restored.items[1])
+    expect(restored.items[2]).toBe(restored.items)
+    expect(restored.byId.get('root')).toBe(restored)
+    expect([...restored.set][0]).toBe(restored.set)
+    expect(restored.items[0].price).toBeInstanceOf(Money)
+  })
+
+  it('should reject codec values that reference themselves', () => {
+    class Link {
+      next: Link = this
+    }
+    const linkSerializer = createSerializer({
+      codecs: [
+        defineCodec({
+          name: 'link',
+          test: (value): value is Link => value instanceof Link,
+          encode: ({ next }) => ({ next }),
+          decode: () => new Link(),
+        }),
+      ],
+    })
+    const envelope: any = { [IPC_CODEC_KEY]: 'link', value: {} }
+    envelope.value.next = envelope
+
+    expect(() => linkSerializer.serialize(new Link())).toThrow(
+      "IPC codec 'link' cannot encode a value that references itself",
+    )
+    expect(() => linkSerializer.deserialize(envelope)).toThrow(
+      "IPC codec 'link' cannot decode a value that references itself",
+    )
+  })
+
+  it('should leave other values to structured clone', () => {
+    const date = new Date(0)
+    const bytes = new Uint8Array([1, 2])
+    const { port1 } = new MessageChannel()
+
+    expect(serializer.serialize(date)).toBe(date)
+    expect(serializer.serialize(bytes)).toBe(bytes)
+    expect(serializer.serialize([port1])).toEqual([port1])
+    expect(serializer.serialize(Object.create(null))).toEqual({})
+    expect(serializer.deserialize(10n)).toBe(10n)
+    port1.close()
+  })
+
+  it('should reject codecs registered twice', () => {
+    expect(() =>
+      createSerializer({ codecs: [moneyCodec, moneyCodec] }),
+    ).toThrow("IPC codec 'money' is registered twice")
+  })
+
+  it('should reject values encoded by unknown codecs', () => {
+    const encoded = serializer.serialize(new Money(1n, 'EUR'))
+
+    expect(() => createSerializer().deserialize(encoded)).toThrow(
+      "Unknown IPC codec 'money'",
+    )
+  })
+})
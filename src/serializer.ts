@@ -0,0 +1,191 @@
+import { IPC_CODEC_KEY, type IpcCodecEnvelope } from './protocol'
+
+// Converts values of a custom type, e.g. a domain class, to something
+// structured clone can copy, and back on the other side
+export interface IpcCodec<T = any, TEncoded = any> {
+  // Tag identifying the codec on the wire, the same in every process
+  name: string
+  // Whether the codec handles a value, e.g. `value instanceof Money`
+  test(value: unknown): value is T
+  encode(value: T): TEncoded
+  decode(encoded: TEncoded): T
+}
+
+// Helper inferring the codec types
+export function defineCodec<T, TEncoded>(
+  codec: IpcCodec<T, TEncoded>,
+): IpcCodec<T, TEncoded> {
+  return codec
+}
+
+// Types registered with codecs, which keep their type on the client. Add them
+// with declaration merging:
+//
+// declare module 'electron-ipc-decorator' {
+//   interface IpcCodecTypes {
+//     money: Money
+//   }
+// }
+export interface IpcCodecTypes {}
+
+// Transforms arguments, results, stream chunks and event payloads on both
+// sides of a call
+export interface IpcSerializer {
+  serialize(value: unknown): unknown
+  deserialize(value: unknown): unknown
+}
+
+export interface IpcSerializerOptions {
+  codecs?: IpcCodec[]
+}
+
+// Serializer used when none is configured, leaving values to structured clone
+export const passthroughSerializer: IpcSerializer = {
+  serialize: (value) => value,
+  deserialize: (value) => value,
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+function isCodecEnvelope(value: unknown): value is IpcCodecEnvelope {
+  return isPlainObject(value) && IPC_CODEC_KEY in value
+}
+
+// Walk `value`, mapping every nested value that structured clone copies
+// element by element. `copies` holds the containers already walked, so
+// shared and cyclic references are kept like structured clone does
+function mapNested(
+  value: unknown,
+  map: (value: unknown) => unknown,
+  copies: Map<object, unknown>,
+): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+  if (copies.has(value)) {
+    return copies.get(value)
+  }
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = []
+    copies.set(value, copy)
+    for (const entry of value) {
+      copy.push(map(entry))
+    }
+    return copy
+  }
+  if (value instanceof Map) {
+    const copy = new Map()
+    copies.set(value, copy)
+    for (const [key, entry] of value) {
+      copy.set(map(key), map(entry))
+    }
+    return copy
+  }
+  if (value instanceof Set) {
+    const copy = new Set()
+    copies.set(value, copy)
+    for (const entry of value) {
+      copy.add(map(entry))
+    }
+    return copy
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {}
+    copies.set(value, copy)
+    for (const [key, entry] of Object.entries(value)) {
+      // Defined rather than assigned, so a `__proto__` key stays a key
+      Object.defineProperty(copy, key, {
+        value: map(entry),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      })
+    }
+    return copy
+  }
+  return value
+}
+
+// Serializer tagging the values handled by `codecs`, wherever they are nested.
+// Date, Map, Set, BigInt, RegExp and typed arrays are left to structured
+// clone, and instances of classes without a codec arrive as plain objects
+export function createSerializer({
+  codecs = [],
+}: IpcSerializerOptions = {}): IpcSerializer {
+  const codecsByName = new Map<string, IpcCodec>()
+  for (const codec of codecs) {
+    if (codecsByName.has(codec.name)) {
+      throw new Error(`IPC codec '${codec.name}' is registered twice`)
+    }
+    codecsByName.set(codec.name, codec)
+  }
+
+  const serialize = (
+    value: unknown,
+    copies: Map<object, unknown>,
+    encoding: Set<unknown>,
+  ): unknown => {
+    const codec = codecs.find((codec) => codec.test(value))
+    if (!codec) {
+      return mapNested(
+        value,
+        (entry) => serialize(entry, copies, encoding),
+        copies,
+      )
+    }
+
+    // The encoded value cannot be decoded before the value it contains
+    if (encoding.has(value)) {
+      throw new Error(
+        `IPC codec '${codec.name}' cannot encode a value that references itself`,
+      )
+    }
+    encoding.add(value)
+    const envelope: IpcCodecEnvelope = {
+      [IPC_CODEC_KEY]: codec.name,
+      value: serialize(codec.encode(value), copies, encoding),
+    }
+    encoding.delete(value)
+    return envelope
+  }
+
+  const deserialize = (
+    value: unknown,
+    copies: Map<object, unknown>,
+    decoding: Set<unknown>,
+  ): unknown => {
+    if (!isCodecEnvelope(value)) {
+      return mapNested(
+        value,
+        (entry) => deserialize(entry, copies, decoding),
+        copies,
+      )
+    }
+
+    const codec = codecsByName.get(value[IPC_CODEC_KEY])
+    if (!codec) {
+      throw new Error(`Unknown IPC codec '${value[IPC_CODEC_KEY]}'`)
+    }
+    if (decoding.has(value)) {
+      throw new Error(
+        `IPC codec '${codec.name}' cannot decode a value that references itself`,
+      )
+    }
+    decoding.add(value)
+    const decoded = codec.decode(deserialize(value.value, copies, decoding))
+    decoding.delete(value)
+    return decoded
+  }
+
+  return {
+    serialize: (value) => serialize(value, new Map(), new Set()),
+    deserialize: (value) => deserialize(value, new Map(), new Set()),
+  }
+}
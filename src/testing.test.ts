@@ -0,0 +1,301 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  getIpcContext,
+  IpcMethod,
+  IpcService,
+  type IpcSenderPolicy,
+} from './index'
+import { IpcForbiddenError, IpcTimeoutError } from './errors'
+import { createToken } from './inject'
+import { createSerializer, defineCodec } from './serializer'
+import { createFakeSender, createTestServices, IpcTestBus } from './testing'
+
+// electron is not mocked, like in the tests of apps using the testing entry,
+// and its binary may not be installed
+
+const GreetingToken = createToken<string>('Greeting')
+const watchClosed = vi.fn()
+const trusted: IpcSenderPolicy = { origins: ['app://trusted'] }
+
+class AppService extends IpcService {
+  static readonly groupName = 'app'
+  static readonly inject = [GreetingToken] as const
+
+  readonly updated = this.defineEvent<{ version: string }>()
+
+  constructor(private readonly greeting: string) {
+    super()
+  }
+
+  @IpcMethod()
+  greet(name: string) {
+    return `${this.greeting}, ${name} from ${getIpcContext().event.senderFrame!.url}`
+  }
+
+  @IpcMethod()
+  publish(version: string) {
+    this.updated.emit({ version })
+  }
+
+  @IpcMethod({ allow: trusted })
+  reset() {
+    return 'reset'
+  }
+
+  @IpcMethod()
+  async *count(to: number) {
+    for (let i = 1; i <= to; i++) {
+      yield i
+    }
+  }
+
+  @IpcMethod()
+  async *watch() {
+    const { signal } = getIpcContext()
+    try {
+      yield 'started'
+      yield 'changed'
+    } finally {
+      watchClosed(signal.aborted)
+    }
+  }
+
+  @IpcMethod()
+  wait() {
+    const { signal } = getIpcContext()
+    return new Promise((_, reject) =>
+      signal.addEventListener('abort', () => reject(signal.reason)),
+    )
+  }
+
+  @IpcMethod({ timeout: 20 })
+  stall() {
+    return new Promise(() => {})
+  }
+
+  @IpcMethod()
+  getDate() {
+    return new Date(0)
+  }
+}
+
+const createApp = (options = {}) =>
+  createTestServices([AppService], {
+    providers: [{ token: GreetingToken, value: 'Hello' }],
+    ...options,
+  })
+
+describe('createTestServices', () => {
+  it('should call services through a typed client', async () => {
+    const { client, services } = createApp({
+      sender: { url: 'app://trusted/index.html' },
+    })
+
+    expect(services.app).toBeInstanceOf(AppService)
+    await expect(client.app.greet('Ada')).resolves.toBe(
+      'Hello, Ada from app://trusted/index.html',
+    )
+    await expect(client.app.reset()).resolves.toBe('reset')
+    await expect(client.app.getDate()).resolves.toEqual(new Date(0))
+  })
+
+  it('should apply sender policies to fake senders', async () => {
+    const { client, connect } = createApp()
+    const iframe = connect({ url: 'app://trusted/', subFrame: true })
+
+    await expect(client.app.reset()).rejects.toBeInstanceOf(IpcForbiddenError)
+    await expect(iframe.client.app.reset()).resolves.toBe('reset')
+  })
+
+  it('should deliver events to connected renderers', async () => {
+    const { client, connect } = createApp()
+    const other = connect()
+    const listener = vi.fn()
+    const otherListener = vi.fn()
+
+    const off = client.app.on('updated', listener)
+    other.client.app.on('updated', otherListener)
+    await client.app.publish('2.0.0')
+    off()
+    await client.app.publish('3.0.0')
+
+    expect(listener).toHaveBeenCalledExactlyOnceWith({ version: '2.0.0' })
+    expect(otherListener).toHaveBeenCalledTimes(2)
+  })
+
+  it('should stream and cancel calls', async () => {
+    const { client, sender } = createApp()
+
+    const chunks: number[] = []
+    for await (const chunk of client.app.count(3)) {
+      chunks.push(chunk)
+    }
+    expect(chunks).toEqual([1, 2, 3])
+
+    const controller = new AbortController()
+    const cancelled = client.app.wait.withOptions({
+      signal: controller.signal,
+    })()
+    controller.abort()
+    await expect(cancelled).rejects.toThrow()
+
+    const destroyed = client.app.wait()
+    // Let the call reach the service before the renderer goes away
+    await new Promise((resolve) => setTimeout(resolve))
+    sender.destroy()
+    await expect(destroyed).rejects.toMatchObject({ code: 'SENDER_DESTROYED' })
+    expect(sender.isDestroyed()).toBe(true)
+  })
+
+  it('should cancel streams aborted during iteration', async () => {
+    const { client } = createApp()
+    const controller = new AbortController()
+
+    await expect(async () => {
+      for await (const _ of client.app.watch.withOptions({
+        signal: controller.signal,
+      })()) {
+        controller.abort()
+      }
+    }).rejects.toThrow()
+
+    await vi.waitFor(() => expect(watchClosed).toHaveBeenCalledWith(true))
+  })
+
+  it('should reject calls exceeding the timeout of the method', async () => {
+    const { client } = createApp()
+
+    await expect(client.app.stall()).rejects.toBeInstanceOf(IpcTimeoutError)
+    await expect(
+      client.app.stall.withOptions({ timeout: 10 })(),
+    ).rejects.toMatchObject({ timeout: 10 })
+  })
+
+  it('should answer batched calls one by one', async () => {
+    const { client } = createApp({ batch: true })
+
+    const [greeting, reset] = await Promise.allSettled([
+      client.app.greet('Ada'),
+      client.app.reset(),
+    ])
+
+    expect(greeting).toEqual({
+      status: 'fulfilled',
+      value: 'Hello, Ada from app://test/index.html',
+    })
+    expect(reset).toMatchObject({ status: 'rejected' })
+    expect((reset as PromiseRejectedResult).reason).toBeInstanceOf(
+      IpcForbiddenError,
+    )
+  })
+
+  it('should reject channels without a handler', async () => {
+    const { client, services } = createApp()
+
+    await services.dispose()
+
+    await expect(client.app.greet('Ada')).rejects.toThrow(
+      "No handler registered for 'app.greet'",
+    )
+  })
+})
+
+class Money {
+  constructor(readonly cents: number) {}
+
+  add(other: Money) {
+    return new Money(this.cents + other.cents)
+  }
+}
+
+// Restored by the codec below, so the client keeps its methods
+declare module './serializer' {
+  interface IpcCodecTypes {
+    money: Money
+  }
+}
+
+describe('createTestServices serializer', () => {
+  class LedgerService extends IpcService {
+    static readonly groupName = 'ledger'
+
+    readonly changed = this.defineEvent<Money>()
+    private balance = new Money(0)
+
+    @IpcMethod()
+    deposit(amount: Money) {
+      this.balance = this.balance.add(amount)
+      this.changed.emit(this.balance)
+      return this.balance
+    }
+
+    @IpcMethod()
+    async *history() {
+      yield new Money(1)
+    }
+  }
+
+  const serializer = createSerializer({
+    codecs: [
+      defineCodec({
+        name: 'money',
+        test: (value): value is Money => value instanceof Money,
+        encode: (money) => money.cents,
+        decode: (cents: number) => new Money(cents),
+      }),
+    ],
+  })
+
+  it('should restore values on both sides of a call', async () => {
+    const { client } = createTestServices([LedgerService], { serializer })
+    const listener = vi.fn()
+    client.ledger.on('changed', listener)
+
+    const balance = await client.ledger.deposit(new Money(5))
+    const history = []
+    for await (const entry of client.ledger.history()) {
+      history.push(entry)
+    }
+
+    expect(balance).toBeInstanceOf(Money)
+    expect(balance.add(new Money(1))).toEqual(new Money(6))
+    expect(listener.mock.calls[0][0]).toBeInstanceOf(Money)
+    expect(history[0]).toBeInstanceOf(Money)
+  })
+
+  it('should reject values of unknown codecs', async () => {
+    const { client } = createTestServices([LedgerService], {
+      serializer: createSerializer(),
+    })
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(
+      client.ledger.deposit({ __ipc_codec__: 'money', value: 5 } as any),
+    ).rejects.toThrow("Unknown IPC codec 'money'")
+    error.mockRestore()
+  })
+})
+
+describe('createFakeSender', () => {
+  it('should describe a renderer', () => {
+    const sender = createFakeSender({ id: 7, url: 'https://example.com/a' })
+
+    expect(sender.id).toBe(7)
+    expect(sender.getURL()).toBe('https://example.com/a')
+    expect(sender.mainFrame).toEqual({
+      url: 'https://example.com/a',
+      origin: 'https://example.com',
+      parent: null,
+    })
+    expect(createFakeSender().id).not.toBe(createFakeSender().id)
+  })
+
+  it('should connect to a bus with a default sender', async () => {
+    const bus = new IpcTestBus()
+    bus.handle('app.ping', (event) => event.sender.getURL())
+
+    await expect(bus.connect().invoke('app.ping')).resolves.toBe(
+      'app://test/index.html',
+    )
+  })
+})
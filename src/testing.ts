@@ -0,0 +1,177 @@
+import { EventEmitter } from 'node:events'
+import type { IpcMainEvent, IpcMainInvokeEvent, WebContents } from 'electron'
+import {
+  createServices,
+  IpcHandler,
+  type CreateServicesOptions,
+  type IpcServiceConstructor,
+  type IpcTarget,
+} from './base'
+import {
+  createIpcProxy,
+  type IpcClient,
+  type IpcProxyOptions,
+  type IpcTransport,
+} from './client'
+import type { IpcSerializer } from './serializer'
+import type { MergeIpcService } from './utility'
+
+export interface FakeSenderOptions {
+  id?: number
+  // URL of the sending frame, whose origin is checked by sender policies
+  url?: string
+  // Whether calls come from an iframe rather than the main frame
+  subFrame?: boolean
+}
+
+// WebContents standing in for a renderer in tests
+export interface FakeWebContents extends EventEmitter {
+  id: number
+  mainFrame: { url: string; origin: string; parent: null }
+  getURL(): string
+  isDestroyed(): boolean
+  // Emit 'destroyed', which cancels its calls and disposes scoped services
+  destroy(): void
+  // Events sent to the renderer
+  send(channel: string, payload?: unknown): void
+}
+
+let senderCounter = 0
+
+export function createFakeSender({
+  id = ++senderCounter,
+  url = 'app://test/index.html',
+}: FakeSenderOptions = {}): FakeWebContents {
+  let destroyed = false
+  const sender = new EventEmitter() as FakeWebContents
+  // Origins of custom schemes like app:// are opaque to URL
+  const { protocol, host } = new URL(url)
+
+  return Object.assign(sender, {
+    id,
+    mainFrame: { url, origin: `${protocol}//${host}`, parent: null },
+    getURL: () => url,
+    isDestroyed: () => destroyed,
+    destroy: () => {
+      destroyed = true
+      sender.emit('destroyed')
+    },
+    send: (channel: string, payload?: unknown) => {
+      sender.emit(`ipc:${channel}`, payload)
+    },
+  })
+}
+
+// IpcMain replacement delivering calls in memory
+export class IpcTestBus implements IpcTarget {
+  private handlers = new Map<string, (...args: any[]) => unknown>()
+  private listeners = new EventEmitter()
+  // Renderers connected to the bus, which receive broadcast events
+  readonly senders = new Set<FakeWebContents>()
+
+  handle(channel: string, listener: (...args: any[]) => unknown) {
+    this.handlers.set(channel, listener)
+  }
+
+  removeHandler(channel: string) {
+    this.handlers.delete(channel)
+  }
+
+  on(channel: string, listener: (...args: any[]) => void) {
+    this.listeners.on(channel, listener)
+  }
+
+  // Transport calling as `sender`, passed to createIpcProxy. Arguments and
+  // results are cloned like they are by Electron
+  connect(
+    sender: FakeWebContents = createFakeSender(),
+    { subFrame = false }: Pick<FakeSenderOptions, 'subFrame'> = {},
+  ): IpcTransport {
+    this.senders.add(sender)
+    sender.once('destroyed', () => this.senders.delete(sender))
+
+    const senderFrame = subFrame
+      ? { ...sender.mainFrame, parent: sender.mainFrame }
+      : sender.mainFrame
+    const createEvent = () =>
+      ({
+        sender,
+        senderFrame,
+        processId: 1,
+        frameId: 1,
+      }) as unknown as IpcMainInvokeEvent & IpcMainEvent
+
+    return {
+      invoke: async (channel, ...args) => {
+        const handler = this.handlers.get(channel)
+        if (!handler) {
+          throw new Error(`No handler registered for '${channel}'`)
+        }
+        return structuredClone(
+          await handler(createEvent(), ...structuredClone(args)),
+        )
+      },
+      send: (channel, ...args) => {
+        this.listeners.emit(channel, createEvent(), ...structuredClone(args))
+      },
+      on: (channel, listener) => {
+        const wrapped = (payload: unknown) =>
+          listener({}, structuredClone(payload))
+        sender.on(`ipc:${channel}`, wrapped)
+        return () => sender.off(`ipc:${channel}`, wrapped)
+      },
+    }
+  }
+}
+
+export interface TestServicesOptions
+  extends Omit<CreateServicesOptions, 'handler'>,
+    IpcProxyOptions {
+  // Sender of the calls made by `client`
+  sender?: FakeSenderOptions
+}
+
+// Create services on an in-memory bus, with a client calling them like a
+// renderer would, without Electron
+export function createTestServices<T extends readonly IpcServiceConstructor[]>(
+  serviceConstructors: T,
+  {
+    sender: senderOptions,
+    providers,
+    ...proxyOptions
+  }: TestServicesOptions = {},
+) {
+  const bus = new IpcTestBus()
+  const handler = new IpcTestHandler(bus, proxyOptions.serializer)
+  const services = createServices(serviceConstructors, { providers, handler })
+  type Client = IpcClient<MergeIpcService<typeof services>>
+
+  // Client of another renderer, e.g. to test sender policies
+  const connect = (options: FakeSenderOptions = {}) => {
+    const sender = createFakeSender(options)
+    const client = createIpcProxy<MergeIpcService<typeof services>>(
+      bus.connect(sender, options),
+      proxyOptions,
+    ) as Client
+    return { client, sender }
+  }
+
+  return { services, handler, bus, connect, ...connect(senderOptions) }
+}
+
+// Handler broadcasting to the renderers connected to the bus
+class IpcTestHandler extends IpcHandler {
+  constructor(
+    private readonly bus: IpcTestBus,
+    serializer?: IpcSerializer,
+  ) {
+    super({ target: bus, serializer })
+  }
+
+  broadcast<T = any>(channel: string, data: T) {
+    super.broadcast(channel, data)
+    for (const sender of this.bus.senders) {
+      this.sendToRenderer(sender as unknown as WebContents, channel, data)
+    }
+  }
+}
@@ -1,5 +1,29 @@
-import { describe, expectTypeOf, it } from 'vitest'
-import type { ExtractServiceMethods, MergeIpcService } from './utility'
+import { describe, expectTypeOf, it, vi } from 'vitest'
+import {
+  IpcMethod,
+  type IpcEvent,
+  type IpcInput,
+  type IpcOutput,
+  type IpcServiceContainer,
+} from './base'
+import type { StandardSchemaV1 } from './standard-schema'
+import type {
+  ExtractServiceEvents,
+  ExtractServiceMethods,
+  IpcTypeError,
+  MergeIpcService,
+  Serializable,
+  Serialized,
+} from './utility'
+
+// Mock electron
+vi.mock('./electron', () => ({
+  getElectron: () => ({
+    ipcMain: {
+      handle: vi.fn(),
+    },
+  }),
+}))
 
 describe('ExtractServiceMethods', () => {
   it('should extract methods without parameters', () => {
@@ -86,6 +110,34 @@ describe('ExtractServiceMethods', () => {
     expectTypeOf<Result>().not.toHaveProperty('numberProp')
   })
 
+  it('should map streaming methods to AsyncIterable', () => {
+    class TestService {
+      async *tail(path: string) {
+        yield path
+      }
+
+      follow(): AsyncIterable<number> {
+        return null!
+      }
+
+      async open(): Promise<AsyncIterable<Uint8Array>> {
+        return null!
+      }
+    }
+
+    type Result = ExtractServiceMethods<TestService>
+
+    expectTypeOf<Result['tail']>().toEqualTypeOf<
+      (input: string) => AsyncIterable<string>
+    >()
+    expectTypeOf<Result['follow']>().toEqualTypeOf<
+      () => AsyncIterable<number>
+    >()
+    expectTypeOf<Result['open']>().toEqualTypeOf<
+      () => AsyncIterable<Uint8Array>
+    >()
+  })
+
   it('should handle void return type', () => {
     class TestService {
       voidMethod(): void {}
@@ -165,6 +217,151 @@ describe('ExtractServiceMethods', () => {
   })
 })
 
+class Temperature {
+  constructor(readonly celsius: number) {}
+
+  toFahrenheit() {
+    return this.celsius * 1.8 + 32
+  }
+}
+
+class Reading {
+  constructor(
+    readonly sensor: string,
+    readonly takenAt: Date,
+  ) {}
+
+  describe() {
+    return this.sensor
+  }
+}
+
+// Types restored by a codec keep their methods
+declare module './serializer' {
+  interface IpcCodecTypes {
+    temperature: Temperature
+  }
+}
+
+describe('Serialized', () => {
+  it('should drop functions and methods of class instances', () => {
+    expectTypeOf<Serialized<Reading>>().toEqualTypeOf<{
+      readonly sensor: string
+      readonly takenAt: Date
+    }>()
+    expectTypeOf<Serialized<Map<string, Reading[]>>>().toEqualTypeOf<
+      Map<string, { readonly sensor: string; readonly takenAt: Date }[]>
+    >()
+    expectTypeOf<Serialized<{ id: number; run: () => void }>>().toEqualTypeOf<{
+      id: number
+    }>()
+  })
+
+  it('should keep types registered with a codec', () => {
+    class SensorService {
+      async *watch(): AsyncGenerator<Temperature> {}
+
+      getTemperatures(): Set<Temperature> {
+        return null!
+      }
+
+      readonly changed = null! as IpcEvent<Temperature>
+    }
+
+    type Client = ExtractServiceMethods<SensorService>
+
+    expectTypeOf<Client['watch']>().toEqualTypeOf<
+      () => AsyncIterable<Temperature>
+    >()
+    expectTypeOf<Client['getTemperatures']>().toEqualTypeOf<
+      () => Promise<Set<Temperature>>
+    >()
+    expectTypeOf<
+      ExtractServiceEvents<SensorService>['changed']
+    >().toEqualTypeOf<Temperature>()
+  })
+
+  it('should keep unknown and cloneable values', () => {
+    expectTypeOf<Serialized<unknown>>().toEqualTypeOf<unknown>()
+    expectTypeOf<
+      Serialized<[bigint, Uint8Array, RegExp | null]>
+    >().toEqualTypeOf<[bigint, Uint8Array, RegExp | null]>()
+  })
+})
+
+describe('Serializable', () => {
+  interface TreeNode {
+    name: string
+    children: TreeNode[]
+  }
+
+  class FileService {
+    download(url: string, onProgress: (progress: number) => void) {}
+
+    read(path: string): Buffer {
+      return null!
+    }
+
+    open(): Reading {
+      return null!
+    }
+
+    async list(): Promise<{ files: { name: string; handle: symbol }[] }> {
+      return null!
+    }
+
+    async *watch(): AsyncGenerator<Reading> {}
+
+    getTree(): TreeNode {
+      return null!
+    }
+
+    convert(temperature: Temperature): Temperature {
+      return temperature
+    }
+  }
+
+  type Client = MergeIpcService<{ files: typeof FileService }>['files']
+
+  it('should turn methods that cannot be sent into type errors', () => {
+    expectTypeOf<Client['download']>().toEqualTypeOf<
+      IpcTypeError<'args[1] is a function'>
+    >()
+    expectTypeOf<Client['read']>().toEqualTypeOf<
+      IpcTypeError<'result is a Buffer, which arrives as a Uint8Array'>
+    >()
+    expectTypeOf<Client['open']>().toEqualTypeOf<
+      IpcTypeError<'result has methods, which are lost over IPC. Register a codec for it in IpcCodecTypes'>
+    >()
+    expectTypeOf<Client['list']>().toEqualTypeOf<
+      IpcTypeError<'result.files[number].handle is a symbol'>
+    >()
+    expectTypeOf<Client['watch']>().toEqualTypeOf<
+      IpcTypeError<'chunk has methods, which are lost over IPC. Register a codec for it in IpcCodecTypes'>
+    >()
+  })
+
+  it('should accept recursive types and types registered with a codec', () => {
+    expectTypeOf<Client['getTree']>().toEqualTypeOf<() => Promise<TreeNode>>()
+    expectTypeOf<Client['convert']>().toEqualTypeOf<
+      (input: Temperature) => Promise<Temperature>
+    >()
+  })
+
+  it('should check single values', () => {
+    expectTypeOf<Serializable<TreeNode>>().toEqualTypeOf<TreeNode>()
+    expectTypeOf<Serializable<{ ids: Set<symbol> }>>().toEqualTypeOf<
+      IpcTypeError<'value.ids<value> is a symbol'>
+    >()
+    expectTypeOf<Serializable<(...args: string[]) => void>>().toEqualTypeOf<
+      IpcTypeError<'value is a function'>
+    >()
+    expectTypeOf<
+      ExtractServiceMethods<{ log(...lines: symbol[]): void }>['log']
+    >().toEqualTypeOf<IpcTypeError<'args[number] is a symbol'>>()
+  })
+})
+
 describe('MergeIpcService', () => {
   it('should merge services from constructors', () => {
     class AppService {
@@ -341,3 +538,154 @@ describe('MergeIpcService', () => {
     }>()
   })
 })
+
+describe('MergeIpcService containers', () => {
+  it('should ignore the disposal methods of createServices', () => {
+    class AppService {
+      getVersion(): string {
+        return '1.0.0'
+      }
+    }
+
+    type Services = { app: AppService } & IpcServiceContainer
+    type Result = MergeIpcService<Services>
+
+    expectTypeOf<Result>().toEqualTypeOf<{
+      app: { getVersion: () => Promise<string> }
+    }>()
+  })
+})
+
+describe('ExtractServiceEvents', () => {
+  it('should extract event payloads', () => {
+    class TestService {
+      updateAvailable!: IpcEvent<{ version: string }>
+      ready!: IpcEvent
+      method(): string {
+        return 'test'
+      }
+    }
+
+    type Result = ExtractServiceEvents<TestService>
+
+    expectTypeOf<Result>().toEqualTypeOf<{
+      updateAvailable: { version: string }
+      ready: void
+    }>()
+  })
+
+  it('should not treat plain objects as events', () => {
+    class TestService {
+      config = { payload: 'value' }
+    }
+
+    type Result = ExtractServiceEvents<TestService>
+
+    expectTypeOf<Result>().toEqualTypeOf<{}>()
+  })
+})
+
+describe('MergeIpcService events', () => {
+  it('should add typed subscriptions for services with events', () => {
+    class AppService {
+      updateAvailable!: IpcEvent<{ version: string }>
+      getVersion(): string {
+        return '1.0.0'
+      }
+    }
+
+    type Result = MergeIpcService<{ app: AppService }>
+
+    expectTypeOf<Result['app']['getVersion']>().toEqualTypeOf<
+      () => Promise<string>
+    >()
+    expectTypeOf<Result['app']['on']>()
+      .parameter(0)
+      .toEqualTypeOf<'updateAvailable'>()
+    expectTypeOf<
+      Parameters<Parameters<Result['app']['on']>[1]>[0]
+    >().toEqualTypeOf<{ version: string }>()
+    expectTypeOf<Result['app']>().not.toHaveProperty('updateAvailable')
+  })
+
+  it('should not add subscriptions for services without events', () => {
+    class AppService {
+      getVersion(): string {
+        return '1.0.0'
+      }
+    }
+
+    type Result = MergeIpcService<{ app: AppService }>
+
+    expectTypeOf<Result['app']>().not.toHaveProperty('on')
+  })
+})
+
+describe('IpcMethod schemas', () => {
+  const schema = {} as StandardSchemaV1<{ name: string }>
+
+  it('should infer method input from the schema', () => {
+    class TestService {
+      @IpcMethod({ input: schema, output: schema })
+      update(input: { name: string }) {
+        return input
+      }
+    }
+
+    type Result = ExtractServiceMethods<TestService>
+
+    expectTypeOf<Result['update']>().toEqualTypeOf<
+      (input: { name: string }) => Promise<{ name: string }>
+    >()
+  })
+
+  it('should type clients with the input and output of transforming schemas', () => {
+    const parseId = {} as StandardSchemaV1<string, number>
+    const formatId = {} as StandardSchemaV1<number, string>
+
+    class TestService {
+      @IpcMethod({ input: parseId, output: formatId })
+      next(id: IpcInput<typeof parseId>): IpcOutput<typeof formatId> {
+        return id + 1
+      }
+
+      @IpcMethod({ input: parseId, output: formatId })
+      async nextAsync(
+        id: IpcInput<typeof parseId>,
+      ): Promise<IpcOutput<typeof formatId>> {
+        return id + 1
+      }
+    }
+
+    type Result = ExtractServiceMethods<TestService>
+
+    expectTypeOf<Result['next']>().toEqualTypeOf<
+      (input: string) => Promise<string>
+    >()
+    expectTypeOf<Result['nextAsync']>().toEqualTypeOf<
+      (input: string) => Promise<string>
+    >()
+
+    const client = {} as Result
+    // @ts-expect-error the client sends the schema input
+    expectTypeOf(client.next).toBeCallableWith(42)
+  })
+
+  it('should reject methods that do not match the schema', () => {
+    class TestService {
+      // @ts-expect-error input type does not match the schema
+      @IpcMethod({ input: schema })
+      update(input: number) {
+        return input
+      }
+
+      // @ts-expect-error return type does not match the schema
+      @IpcMethod({ output: schema })
+      read() {
+        return 42
+      }
+    }
+
+    expectTypeOf<TestService>().toHaveProperty('update')
+  })
+})
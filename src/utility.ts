@@ -1,24 +1,198 @@
-// Extract method signatures from service class
+import type {
+  IpcEvent,
+  IpcServiceContainer,
+  WireInput,
+  WireOutput,
+} from './base'
+import type { IpcCodecTypes } from './serializer'
+
+// Extract method signatures from service class. Methods taking or returning
+// values that cannot be sent over IPC are typed as an IpcTypeError
 export type ExtractServiceMethods<T> = {
   [K in keyof T as T[K] extends (...args: any[]) => any
     ? K
-    : never]: T[K] extends (...args: infer Args) => infer Output
-    ? Args extends []
-      ? () => AlwaysPromise<Output>
-      : Args extends [infer Input]
-      ? (input: Input) => AlwaysPromise<Output>
-      : (...args: Args) => AlwaysPromise<Output>
+    : never]: T[K] extends (...args: infer Params) => infer Result
+    ? [WireArgs<Params>, WireResult<Result>] extends [
+        infer Args extends any[],
+        infer Output,
+      ]
+      ? [ArgsError<Args> | ResultError<Output>] extends [
+          infer Message extends string,
+        ]
+        ? [Message] extends [never]
+          ? Args extends []
+            ? () => MethodResult<Output>
+            : Args extends [infer Input]
+            ? (input: Input) => MethodResult<Output>
+            : (...args: Args) => MethodResult<Output>
+          : IpcTypeError<Message>
+        : never
+      : never
     : never
 }
 
-type AlwaysPromise<T> = Promise<Awaited<T>>
+// Arguments as sent by the client, the schema input for IpcInput parameters
+type WireArgs<Params extends any[]> = {
+  [I in keyof Params]: WireInput<Params[I]>
+}
+
+// Result as received by the client, the schema output for IpcOutput results
+type WireResult<Result> = Result extends Promise<infer Value>
+  ? Promise<WireOutput<Value>>
+  : WireOutput<Result>
+
+// Stands in for a method that cannot be called over IPC, so that calling it
+// is a type error quoting the reason
+export interface IpcTypeError<Message extends string> {
+  readonly __ipcTypeError: Message
+}
+
+// Why the arguments of a method cannot be sent over IPC, if they cannot
+type ArgsError<Args extends any[]> = number extends Args['length']
+  ? SerializationError<Args[number], 'args[number]'>
+  : {
+      [I in keyof Args & `${number}`]: SerializationError<Args[I], `args[${I}]`>
+    }[keyof Args & `${number}`]
+
+// Why the result, or the chunks of a stream, cannot be sent over IPC
+type ResultError<Output> = Awaited<Output> extends AsyncIterable<infer Chunk>
+  ? SerializationError<Chunk, 'chunk'>
+  : SerializationError<Awaited<Output>, 'result'>
+
+// Streaming methods resolve to an AsyncIterable, everything else to a Promise
+type MethodResult<T> = Awaited<T> extends AsyncIterable<infer Chunk>
+  ? AsyncIterable<Serialized<Chunk>>
+  : Promise<Serialized<Awaited<T>>>
+
+// Values structured clone copies as they are
+type CloneableBuiltin =
+  | string
+  | number
+  | boolean
+  | bigint
+  | null
+  | undefined
+  | void
+  | Date
+  | RegExp
+  | Error
+  | ArrayBuffer
+  | ArrayBufferView
+
+// Node Buffer, which arrives as a plain Uint8Array
+type BufferLike = Uint8Array & { readUInt8(offset?: number): number }
+
+// Describe the members of T that cannot be sent over IPC, naming their path
+// from `Path`, or never when every member can
+type SerializationError<
+  T,
+  Path extends string,
+  Depth extends unknown[] = [],
+> = unknown extends T
+  ? never
+  : Depth['length'] extends 8
+  ? never
+  : T extends IpcCodecTypes[keyof IpcCodecTypes]
+  ? never
+  : T extends BufferLike
+  ? `${Path} is a Buffer, which arrives as a Uint8Array`
+  : T extends CloneableBuiltin
+  ? never
+  : T extends symbol
+  ? `${Path} is a symbol`
+  : T extends (...args: any[]) => any
+  ? `${Path} is a function`
+  : T extends Map<infer Key, infer Value>
+  ?
+      | SerializationError<Key, `${Path}<key>`, [...Depth, unknown]>
+      | SerializationError<Value, `${Path}<value>`, [...Depth, unknown]>
+  : T extends Set<infer Value>
+  ? SerializationError<Value, `${Path}<value>`, [...Depth, unknown]>
+  : T extends readonly any[]
+  ? SerializationError<T[number], `${Path}[number]`, [...Depth, unknown]>
+  : [MethodKeys<T>] extends [never]
+  ? {
+      [K in keyof T & string]-?: SerializationError<
+        T[K],
+        `${Path}.${K}`,
+        [...Depth, unknown]
+      >
+    }[keyof T & string]
+  : `${Path} has methods, which are lost over IPC. Register a codec for it in IpcCodecTypes`
+
+type MethodKeys<T> = {
+  [K in keyof T]-?: T[K] extends (...args: any[]) => any ? K : never
+}[keyof T]
+
+// T when it can be sent over IPC, otherwise an IpcTypeError naming the
+// members that cannot
+export type Serializable<T> = [SerializationError<T, 'value'>] extends [
+  infer Message extends string,
+]
+  ? [Message] extends [never]
+    ? T
+    : IpcTypeError<Message>
+  : never
+
+// What a value becomes once sent over IPC: types registered in IpcCodecTypes
+// are kept, functions are dropped and class instances lose their methods
+export type Serialized<T> = unknown extends T
+  ? T
+  : T extends IpcCodecTypes[keyof IpcCodecTypes]
+  ? T
+  : T extends CloneableBuiltin
+  ? T
+  : T extends (...args: any[]) => any
+  ? never
+  : T extends Map<infer Key, infer Value>
+  ? Map<Serialized<Key>, Serialized<Value>>
+  : T extends Set<infer Value>
+  ? Set<Serialized<Value>>
+  : T extends readonly any[]
+  ? { [K in keyof T]: Serialized<T[K]> }
+  : {
+      [K in keyof T as T[K] extends (...args: any[]) => any
+        ? never
+        : K]: Serialized<T[K]>
+    }
+
+// Extract event payloads from service class
+export type ExtractServiceEvents<T> = {
+  [K in keyof T as T[K] extends IpcEvent<any>
+    ? K
+    : never]: T[K] extends IpcEvent<infer Payload> ? Serialized<Payload> : never
+}
+
+// Renderer-side subscription API for service events
+export interface IpcEventSubscriber<Events> {
+  on<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): () => void
+  once<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): () => void
+  off<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): void
+}
+
+// Client-side shape of a single service
+export type ExtractServiceClient<T> = ExtractServiceMethods<T> &
+  (keyof ExtractServiceEvents<T> extends never
+    ? {}
+    : IpcEventSubscriber<ExtractServiceEvents<T>>)
 
 // TypeScript utility type to automatically merge IPC services
 // This version works with both the old object format and new createServices format
 export type MergeIpcService<T> = {
-  [K in keyof T]: T[K] extends new (...args: any[]) => infer Instance
-    ? ExtractServiceMethods<Instance>
+  [K in keyof T as K extends keyof IpcServiceContainer
+    ? never
+    : K]: T[K] extends new (...args: any[]) => infer Instance
+    ? ExtractServiceClient<Instance>
     : T[K] extends infer Instance
-    ? ExtractServiceMethods<Instance>
+    ? ExtractServiceClient<Instance>
     : never
 }
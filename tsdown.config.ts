@@ -1,12 +1,19 @@
 import { defineConfig } from 'tsdown'
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/client.ts'],
+  entry: [
+    'src/index.ts',
+    'src/client.ts',
+    'src/preload.ts',
+    'src/generate.ts',
+    'src/bin.ts',
+    'src/testing.ts',
+  ],
   format: ['esm', 'cjs'],
   dts: true,
   clean: true,
   minify: false,
   sourcemap: true,
   target: 'node18',
-  external: ['electron'],
+  external: ['electron', 'typescript'],
 })
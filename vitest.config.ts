@@ -12,7 +12,9 @@ export default defineConfig({
         'src/**/*.test.ts',
         'src/**/*.spec.ts',
         'src/utility.ts', // Type-only file
+        'src/standard-schema.ts', // Type-only file
         'src/index.ts', // Re-export only file
+        'src/bin.ts', // Executable entry of src/cli.ts
       ],
       thresholds: {
         lines: 100,